@@ -1,32 +1,83 @@
 "use client"
 
 import { useState, useRef, useEffect } from "react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Textarea } from "@/components/ui/textarea"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Slider } from "@/components/ui/slider"
 import { Play, Square, Download, Moon, Sun, Info, Plus } from "lucide-react"
 import PianoKeyboard from "@/components/piano-keyboard"
 import FrequencyDisplay from "@/components/frequency-display"
-import { PythagoreanTuning } from "@/lib/tuning"
+import ChordEditor from "@/components/chord-editor"
+import ScalaImport from "@/components/scala-import"
+import KeyCharacter from "@/components/key-character"
+import {
+  COMMA_FRACTIONS,
+  DEFAULT_WOLF_POSITION,
+  EDO_PRESETS,
+  EqualDivisionTuning,
+  PythagoreanTuning,
+  REFERENCE_PRESETS,
+  RegularTuning,
+  TUNING_SYSTEMS,
+  getTuningSystem,
+  type KeyAnchor,
+  type ReferencePitch,
+} from "@/lib/tuning"
 import { Parser } from "@/lib/parser"
+import { Formatter } from "@/lib/formatter"
+import { TRANSFORMATIONS } from "@/lib/transformations"
+import { ScalaTuning } from "@/lib/scala"
+import { TuningExport } from "@/lib/tuning-export"
+import { WELL_TEMPERAMENTS, WellTemperament, getWellTemperament } from "@/lib/well-temperaments"
+import { Diagnostics, type Diagnostic } from "@/lib/diagnostics"
 import { AudioPlayer } from "@/lib/audio"
 import { MIDIExporter } from "@/lib/midi"
+import { Timeline, type TempoChange } from "@/lib/timeline"
+
+const TONICS = ["C", "C#", "Db", "D", "Eb", "E", "F", "F#", "Gb", "G", "Ab", "A", "Bb", "B"]
 
 export default function PythagoreanChordTool() {
   const [darkMode, setDarkMode] = useState(false)
   const [chordInput, setChordInput] = useState("")
-  const [baseDuration, setBaseDuration] = useState(1.0)
   const [tempo, setTempo] = useState(120)
+  const [tempoChanges, setTempoChanges] = useState<TempoChange[]>([])
   const [isPlaying, setIsPlaying] = useState(false)
   const [status, setStatus] = useState("")
   const [frequencies, setFrequencies] = useState<any[]>([])
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([])
+  const [tuningSystemId, setTuningSystemId] = useState("pythagorean")
+  const [scalaTuning, setScalaTuning] = useState<ScalaTuning | null>(null)
+  const [edoSteps, setEdoSteps] = useState("19")
+  const [edoDegrees, setEdoDegrees] = useState<"pythagorean" | "just">("pythagorean")
+  const [generator, setGenerator] = useState("1/4")
+  const [referencePreset, setReferencePreset] = useState("A4=440")
+  const [referencePitch, setReferencePitch] = useState<ReferencePitch>({ note: "A4", frequency: 440 })
+  const [anchoring, setAnchoring] = useState<"chord" | "key">("chord")
+  const [tonic, setTonic] = useState("C")
+  const [wolfPosition, setWolfPosition] = useState(DEFAULT_WOLF_POSITION)
+
+  const [transformationId, setTransformationId] = useState(TRANSFORMATIONS[0].id)
+  const [transformArgument, setTransformArgument] = useState(TRANSFORMATIONS[0].example ?? "")
+  const [pendingTransform, setPendingTransform] = useState<string | null>(null)
 
   const [selectedFundamental, setSelectedFundamental] = useState<string | null>(null)
   const [selectedIntervals, setSelectedIntervals] = useState<string[]>([])
 
   const audioPlayerRef = useRef<AudioPlayer | null>(null)
+  const parsedInputRef = useRef("")
   const midiExporterRef = useRef<MIDIExporter>(new MIDIExporter())
 
   useEffect(() => {
@@ -40,36 +91,193 @@ export default function PythagoreanChordTool() {
     audioPlayerRef.current = new AudioPlayer()
   }, [darkMode])
 
+  let edoTuning: EqualDivisionTuning | null = null
+  try {
+    edoTuning = new EqualDivisionTuning(Number(edoSteps), edoDegrees)
+  } catch {
+    // Step count is incomplete while being edited
+  }
+  let regularTuning: RegularTuning | null = null
+  let generatorError = ""
+  try {
+    regularTuning = RegularTuning.fromGenerator(generator)
+  } catch (error) {
+    generatorError = (error as Error).message
+  }
+  const wellTemperament = getWellTemperament(tuningSystemId)
+  const tuningSystem =
+    tuningSystemId === "scala" && scalaTuning
+      ? scalaTuning
+      : tuningSystemId === "edo" && edoTuning
+        ? edoTuning
+        : tuningSystemId === "regular" && regularTuning
+          ? regularTuning
+          : wellTemperament
+            ? new WellTemperament(wellTemperament, tonic)
+            : getTuningSystem(tuningSystemId)
+  const keyAnchor: KeyAnchor | undefined = anchoring === "key" ? { tonic, wolfPosition } : undefined
+
+  // Each gamut option names its lowest and highest note; the wolf fifth lies between them
+  const gamutOptions = Array.from({ length: 12 }, (_, i) => {
+    const low = -11 + i
+    const tonicFifths = PythagoreanTuning.noteNameToFifths(tonic)
+    return {
+      position: low,
+      label: `${PythagoreanTuning.fifthsToNoteName(tonicFifths + low)} – ${PythagoreanTuning.fifthsToNoteName(tonicFifths + low + 11)}`,
+    }
+  })
+
   const loadExample = () => {
     const example = Parser.getExampleSequence()
     setChordInput(example)
     setStatus("Example loaded!")
   }
 
+  const formatInput = () => {
+    const formatted = Formatter.format(chordInput)
+    // Formatting must not change the music; keep the input if it would
+    if (!Formatter.sameMusic(Parser.parse(chordInput), Parser.parse(formatted))) {
+      setStatus("Error: Formatting would change the sequence, so the input was left as it is")
+      return
+    }
+    setChordInput(formatted)
+    setStatus(formatted === chordInput ? "Already formatted" : "Sequence formatted!")
+  }
+
+  const transformation = TRANSFORMATIONS.find(t => t.id === transformationId) ?? TRANSFORMATIONS[0]
+
+  const selectTransformation = (id: string) => {
+    setTransformationId(id)
+    setTransformArgument(TRANSFORMATIONS.find(t => t.id === id)?.example ?? "")
+  }
+
+  // Transformations work on the parsed chords, so an input with comments, definitions or repeats
+  // is only rewritten as plain chord lines once the user confirms it
+  const applyTransformation = () => {
+    const parseResult = Parser.parse(chordInput)
+    const firstError = parseResult.diagnostics.find(d => d.severity === "error")
+    if (firstError) {
+      setStatus(`Error: ${Diagnostics.format(firstError)}`)
+      return
+    }
+
+    try {
+      const result = transformation.apply(parseResult, transformArgument, tempo)
+      const transformed = Formatter.serialize(result.chords, result.tempoChanges)
+      if (transformed === Formatter.serialize(parseResult.chords, parseResult.tempoChanges)) {
+        setStatus(`${transformation.name} leaves the sequence unchanged`)
+        return
+      }
+      // Keep the input if the rewritten text would not parse
+      const transformedError = Parser.parse(transformed).diagnostics.find(d => d.severity === "error")
+      if (transformedError) {
+        setStatus(`Error: ${transformation.name} would give an invalid sequence (${Diagnostics.format(transformedError)})`)
+        return
+      }
+      if (Formatter.flattens(chordInput)) {
+        setPendingTransform(transformed)
+        return
+      }
+      setChordInput(transformed)
+      setStatus(`${transformation.name} applied!`)
+    } catch (error) {
+      setStatus(`Error: ${(error as Error).message}`)
+    }
+  }
+
+  const confirmTransformation = () => {
+    if (pendingTransform !== null) {
+      setChordInput(pendingTransform)
+      setStatus(`${transformation.name} applied!`)
+    }
+    setPendingTransform(null)
+  }
+
+  const selectReferencePreset = (value: string) => {
+    setReferencePreset(value)
+    const preset = REFERENCE_PRESETS.find(ref => `${ref.note}=${ref.frequency}` === value)
+    if (preset) {
+      setReferencePitch(preset)
+    }
+  }
+
   const parseAndDisplay = () => {
     try {
-      const parsedChords = Parser.parseChordSequence(chordInput)
+      const referenceA4 = PythagoreanTuning.referenceToA4(referencePitch)
+      midiExporterRef.current.setReferenceFrequency(referenceA4)
+
+      const parseResult = Parser.parse(chordInput, referencePitch, tuningSystem)
+      setDiagnostics(parseResult.diagnostics)
+
+      const firstError = parseResult.diagnostics.find(d => d.severity === "error")
+      if (firstError) {
+        setStatus(`Error: ${Diagnostics.format(firstError)}`)
+        setFrequencies([])
+        return
+      }
+
+      const parsedChords = parseResult.chords
       const processedSequence = parsedChords.map(chord => {
-        const pythagoreanChord = PythagoreanTuning.calculateChord(chord.fundamental, chord.intervals)
+        // Rests carry no notes; playback and MIDI export only advance time
+        if (chord.rest) {
+          return {
+            fundamental: "",
+            section: chord.section,
+            voice: chord.voice,
+            rest: true,
+            fundamentalFreq: 0,
+            intervals: [],
+            duration: chord.duration,
+            start: chord.start,
+            bar: chord.bar,
+            beat: chord.beat,
+            timeSignature: chord.timeSignature,
+            tunedNotes: [],
+            equalTemperamentNotes: [],
+            frequencies: [],
+          }
+        }
+
+        // Roman numeral chords are always anchored to their declared key, following their spelling
+        const anchor = chord.tonic ? { tonic: chord.tonic, wolfPosition, spelled: true } : keyAnchor
+        const tunedChord = PythagoreanTuning.calculateChord(
+          chord.fundamental,
+          chord.intervals,
+          tuningSystem,
+          referencePitch,
+          anchor
+        )
 
         // Also calculate equal temperament for comparison
         const equalTemperamentNotes = chord.intervals.map(interval => {
-          const freq = PythagoreanTuning.calculateEqualTemperament(pythagoreanChord.fundamental, interval)
-          return { interval, frequency: freq }
+          const freq = PythagoreanTuning.calculateEqualTemperament(tunedChord.fundamental, interval)
+          return { interval, frequency: freq, cents: PythagoreanTuning.equalTemperamentCents(interval) }
         })
 
         return {
           fundamental: chord.fundamental,
-          fundamentalFreq: pythagoreanChord.fundamental,
+          symbol: chord.symbol,
+          section: chord.section,
+          voice: chord.voice,
+          fundamentalFreq: tunedChord.fundamental,
           intervals: chord.intervals,
           duration: chord.duration,
-          pythagoreanNotes: pythagoreanChord.notes,
+          start: chord.start,
+          bar: chord.bar,
+          beat: chord.beat,
+          timeSignature: chord.timeSignature,
+          velocity: chord.velocity,
+          articulation: chord.articulation,
+          arpeggio: chord.arpeggio,
+          accents: chord.accents,
+          tunedNotes: tunedChord.notes,
           equalTemperamentNotes: equalTemperamentNotes,
-          frequencies: pythagoreanChord.notes.map(n => n.frequency)
+          frequencies: tunedChord.notes.map(n => n.frequency)
         }
       })
 
       setFrequencies(processedSequence)
+      setTempoChanges(parseResult.tempoChanges)
       setStatus(`Successfully parsed ${parsedChords.length} chord(s)`)
     } catch (error) {
       setStatus(`Error: ${(error as Error).message}`)
@@ -77,6 +285,28 @@ export default function PythagoreanChordTool() {
     }
   }
 
+  // Re-parse live while typing (debounced) and at once whenever the tuning settings change,
+  // so that sweeping the generator follows the slider
+  useEffect(() => {
+    if (!chordInput.trim()) {
+      setDiagnostics([])
+      setFrequencies([])
+      return
+    }
+
+    const typing = parsedInputRef.current !== chordInput
+    parsedInputRef.current = chordInput
+    const timeout = setTimeout(parseAndDisplay, typing ? 300 : 0)
+    return () => clearTimeout(timeout)
+  }, [chordInput, tuningSystemId, scalaTuning, edoSteps, edoDegrees, generator, referencePitch, anchoring, tonic, wolfPosition])
+
+  // Notes that are playing glide to the new tuning
+  useEffect(() => {
+    if (isPlaying) {
+      audioPlayerRef.current?.retune(frequencies)
+    }
+  }, [frequencies])
+
   const playSequence = async () => {
     if (frequencies.length === 0) {
       setStatus("Please parse the input first!")
@@ -89,10 +319,7 @@ export default function PythagoreanChordTool() {
       setIsPlaying(true)
       setStatus("Playing...")
 
-      await audioPlayerRef.current.playSequence(frequencies.map(chord => ({
-        frequencies: chord.frequencies,
-        duration: chord.duration * baseDuration
-      })), 1)
+      await audioPlayerRef.current.playSequence(frequencies, new Timeline(tempo, tempoChanges))
 
       setIsPlaying(false)
       setStatus("Playback complete")
@@ -111,13 +338,13 @@ export default function PythagoreanChordTool() {
     setStatus("Stopped")
   }
 
-  const exportPythagoreanMIDI = () => {
+  const exportTunedMIDI = () => {
     if (frequencies.length === 0 || !midiExporterRef.current) return
 
     try {
-      const midiData = midiExporterRef.current.generatePythagoreanMIDI(frequencies, baseDuration, tempo)
-      midiExporterRef.current.downloadMIDI(midiData, 'pythagorean_chords.mid')
-      setStatus('Pythagorean MIDI file downloaded')
+      const midiData = midiExporterRef.current.generatePythagoreanMIDI(frequencies, new Timeline(tempo, tempoChanges))
+      midiExporterRef.current.downloadMIDI(midiData, `${tuningSystem.id}_chords.mid`)
+      setStatus(`${tuningSystem.name} MIDI file downloaded`)
       setTimeout(() => setStatus(""), 3000)
     } catch (error) {
       setStatus(`Export error: ${(error as Error).message}`)
@@ -128,7 +355,7 @@ export default function PythagoreanChordTool() {
     if (frequencies.length === 0 || !midiExporterRef.current) return
 
     try {
-      const midiData = midiExporterRef.current.generateEqualTemperamentMIDI(frequencies, baseDuration, tempo)
+      const midiData = midiExporterRef.current.generateEqualTemperamentMIDI(frequencies, new Timeline(tempo, tempoChanges))
       midiExporterRef.current.downloadMIDI(midiData, 'equal_temperament_chords.mid')
       setStatus('Equal Temperament MIDI file downloaded')
       setTimeout(() => setStatus(""), 3000)
@@ -137,6 +364,23 @@ export default function PythagoreanChordTool() {
     }
   }
 
+  // Tuning files retune a synthesizer so the equal temperament MIDI plays in the active tuning
+  const exportTuningFiles = (format: "scala" | "tun") => {
+    try {
+      const tuning = TuningExport.toScala(tuningSystem, { tonic, wolfPosition }, referencePitch)
+      const name = tuningSystem instanceof ScalaTuning ? "scala" : `${tuningSystem.id}_${tonic.replace("#", "sharp")}`
+      TuningExport.download(
+        format === "scala"
+          ? TuningExport.scalaFiles(tuning, name)
+          : [TuningExport.anamarkFile(tuning, referencePitch, name)]
+      )
+      setStatus(`${tuningSystem.name} tuning ${format === "scala" ? "files" : "file"} downloaded`)
+      setTimeout(() => setStatus(""), 3000)
+    } catch (error) {
+      setStatus(`Export error: ${(error as Error).message}`)
+    }
+  }
+
   const handleKeySelect = (note: string) => {
     if (!selectedFundamental) {
       setSelectedFundamental(note)
@@ -220,7 +464,9 @@ export default function PythagoreanChordTool() {
             <h1 className="font-bold text-4xl md:text-5xl text-balance bg-gradient-to-r from-primary to-accent bg-clip-text text-transparent">
               Pythagorean Chord Tool
             </h1>
-            <p className="mt-2 text-muted-foreground text-lg">Create chord sequences with pure Pythagorean tuning</p>
+            <p className="mt-2 text-muted-foreground text-lg">
+              Create chord sequences with pure Pythagorean tuning and compare other temperaments
+            </p>
           </div>
           <Button variant="outline" size="icon" onClick={() => setDarkMode(!darkMode)} className="shrink-0">
             {darkMode ? <Sun className="h-5 w-5" /> : <Moon className="h-5 w-5" />}
@@ -238,6 +484,8 @@ export default function PythagoreanChordTool() {
               onKeyPress={handleKeySelect}
               selectedFundamental={selectedFundamental}
               selectedIntervals={selectedIntervals}
+              referencePitch={referencePitch}
+              tuningSystem={tuningSystem}
             />
 
             <div className="flex flex-wrap items-center gap-3">
@@ -284,23 +532,76 @@ export default function PythagoreanChordTool() {
               <span>
                 Format:{" "}
                 <code className="text-xs bg-muted px-1.5 py-0.5 rounded">
-                  Fundamental: intervals, duration=multiplier
+                  Fundamental: intervals, duration=length
                 </code>
                 <br />
-                Example: <code className="text-xs bg-muted px-1.5 py-0.5 rounded">C4: 1,3,5, duration=2</code>
+                Example: <code className="text-xs bg-muted px-1.5 py-0.5 rounded">C4: 1,3,5, duration=2</code> or{" "}
+                <code className="text-xs bg-muted px-1.5 py-0.5 rounded">Cmaj7, duration=2</code>
               </span>
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
-            <Textarea
+            <ChordEditor
               value={chordInput}
-              onChange={(e) => setChordInput(e.target.value)}
+              onChange={setChordInput}
+              diagnostics={diagnostics}
               placeholder="Enter chord sequences..."
-              className="min-h-[150px] font-mono text-sm"
             />
-            <Button onClick={loadExample} variant="secondary" size="sm">
-              Load Example
-            </Button>
+            <div className="flex gap-2">
+              <Button onClick={loadExample} variant="secondary" size="sm">
+                Load Example
+              </Button>
+              <Button onClick={formatInput} variant="outline" size="sm" disabled={!chordInput.trim()}>
+                Format
+              </Button>
+            </div>
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="transformation" className="text-xs">Transform</Label>
+                <Select value={transformationId} onValueChange={selectTransformation}>
+                  <SelectTrigger id="transformation" size="sm" className="w-48">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TRANSFORMATIONS.map((t) => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {transformation.argument && (
+                <div className="space-y-1">
+                  <Label htmlFor="transformArgument" className="text-xs">{transformation.argument}</Label>
+                  <Input
+                    id="transformArgument"
+                    value={transformArgument}
+                    onChange={(e) => setTransformArgument(e.target.value)}
+                    placeholder={transformation.example}
+                    className="h-8 w-24"
+                  />
+                </div>
+              )}
+              <Button onClick={applyTransformation} variant="outline" size="sm" disabled={!chordInput.trim()}>
+                Apply
+              </Button>
+            </div>
+            <AlertDialog open={pendingTransform !== null} onOpenChange={(open) => !open && setPendingTransform(null)}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Rewrite the sequence?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    {transformation.name} works on the unrolled chords, so repeats and definitions will be written out
+                    as plain chord lines and comments will be removed.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={confirmTransformation}>Rewrite</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
           </CardContent>
         </Card>
 
@@ -310,26 +611,243 @@ export default function PythagoreanChordTool() {
             <CardTitle>Playback Controls</CardTitle>
           </CardHeader>
           <CardContent className="space-y-6">
-            <div className="grid gap-6 md:grid-cols-2">
-              <div className="space-y-2">
-                <Label htmlFor="baseDuration">Base Duration (seconds)</Label>
-                <Input
-                  id="baseDuration"
-                  type="number"
-                  step="0.1"
-                  value={baseDuration}
-                  onChange={(e) => setBaseDuration(Number.parseFloat(e.target.value))}
+            <div className="space-y-2">
+              <Label htmlFor="tuningSystem">Tuning System</Label>
+              <Select value={tuningSystemId} onValueChange={setTuningSystemId}>
+                <SelectTrigger id="tuningSystem" className="w-full">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TUNING_SYSTEMS.map((system) => (
+                    <SelectItem key={system.id} value={system.id}>
+                      {system.name}
+                    </SelectItem>
+                  ))}
+                  {WELL_TEMPERAMENTS.map((temperament) => (
+                    <SelectItem key={temperament.id} value={temperament.id}>
+                      {temperament.name}
+                    </SelectItem>
+                  ))}
+                  <SelectItem value="regular">Regular Temperament</SelectItem>
+                  <SelectItem value="edo">Equal Division (N-EDO)</SelectItem>
+                  <SelectItem value="scala">{scalaTuning ? scalaTuning.name : "Scala file..."}</SelectItem>
+                </SelectContent>
+              </Select>
+              {tuningSystemId === "edo" && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label htmlFor="edoSteps" className="text-sm">
+                    Steps
+                  </Label>
+                  <Input
+                    id="edoSteps"
+                    type="number"
+                    min={1}
+                    max={EqualDivisionTuning.maxSteps}
+                    value={edoSteps}
+                    onChange={(e) => setEdoSteps(e.target.value)}
+                    className="h-8 w-20"
+                  />
+                  {EDO_PRESETS.map((steps) => (
+                    <Button
+                      key={steps}
+                      variant={edoSteps === String(steps) ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setEdoSteps(String(steps))}
+                    >
+                      {steps}
+                    </Button>
+                  ))}
+                  <Select value={edoDegrees} onValueChange={(value) => setEdoDegrees(value as "pythagorean" | "just")}>
+                    <SelectTrigger size="sm" className="w-48">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="pythagorean">Pythagorean degrees</SelectItem>
+                      <SelectItem value="just">5-limit degrees</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {wellTemperament && (
+                <div className="flex flex-wrap items-center gap-2">
+                  <Label htmlFor="temperamentTonic" className="text-sm">
+                    Tonic
+                  </Label>
+                  <Select value={tonic} onValueChange={setTonic}>
+                    <SelectTrigger id="temperamentTonic" size="sm" className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TONICS.map((name) => (
+                        <SelectItem key={name} value={name}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {tuningSystemId === "regular" && (
+                <div className="space-y-3">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Label htmlFor="generator" className="text-sm">
+                      Fifth
+                    </Label>
+                    <Input
+                      id="generator"
+                      value={generator}
+                      onChange={(e) => setGenerator(e.target.value)}
+                      placeholder="696.58 or 1/4"
+                      className="h-8 w-28 font-mono"
+                    />
+                    {COMMA_FRACTIONS.map(({ fraction, pure }) => (
+                      <Button
+                        key={fraction}
+                        variant={generator === fraction ? "default" : "outline"}
+                        size="sm"
+                        title={pure}
+                        onClick={() => setGenerator(fraction)}
+                      >
+                        {fraction}-comma
+                      </Button>
+                    ))}
+                  </div>
+                  <Slider
+                    aria-label="Fifth in cents"
+                    min={RegularTuning.minFifth}
+                    max={RegularTuning.maxFifth}
+                    step={0.01}
+                    value={[regularTuning ? regularTuning.fifthCents : RegularTuning.minFifth]}
+                    onValueChange={([cents]) => setGenerator(cents.toFixed(2))}
+                  />
+                </div>
+              )}
+              <p className="text-xs text-muted-foreground">
+                {tuningSystemId === "regular" && generatorError
+                  ? generatorError
+                  : tuningSystemId === "scala" && !scalaTuning
+                  ? "Paste or upload a Scala scale to use it as the tuning"
+                  : tuningSystemId === "edo" && !edoTuning
+                    ? `Enter a number of steps from 1 to ${EqualDivisionTuning.maxSteps}`
+                    : tuningSystem.description}
+              </p>
+              {tuningSystemId === "scala" && (
+                <ScalaImport
+                  onImport={tuning => {
+                    setScalaTuning(tuning)
+                    setStatus(`${tuning.name} loaded as the tuning`)
+                  }}
+                  onError={message => setStatus(`Error: ${message}`)}
                 />
+              )}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="referencePreset">Reference Pitch</Label>
+                <Select value={referencePreset} onValueChange={selectReferencePreset}>
+                  <SelectTrigger id="referencePreset" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REFERENCE_PRESETS.map((ref) => (
+                      <SelectItem key={`${ref.note}=${ref.frequency}`} value={`${ref.note}=${ref.frequency}`}>
+                        {ref.note} = {ref.frequency} Hz
+                      </SelectItem>
+                    ))}
+                    <SelectItem value="custom">Custom</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              {referencePreset === "custom" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="referenceNote">Reference Note</Label>
+                    <Input
+                      id="referenceNote"
+                      value={referencePitch.note}
+                      onChange={(e) => setReferencePitch({ ...referencePitch, note: e.target.value.trim() })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="referenceFrequency">Reference Frequency (Hz)</Label>
+                    <Input
+                      id="referenceFrequency"
+                      type="number"
+                      step="0.01"
+                      value={referencePitch.frequency}
+                      onChange={(e) =>
+                        setReferencePitch({ ...referencePitch, frequency: Number.parseFloat(e.target.value) })
+                      }
+                    />
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-3">
               <div className="space-y-2">
-                <Label htmlFor="tempo">Tempo (BPM)</Label>
-                <Input
-                  id="tempo"
-                  type="number"
-                  value={tempo}
-                  onChange={(e) => setTempo(Number.parseInt(e.target.value))}
-                />
+                <Label htmlFor="anchoring">Fundamentals</Label>
+                <Select value={anchoring} onValueChange={(value) => setAnchoring(value as "chord" | "key")}>
+                  <SelectTrigger id="anchoring" className="w-full">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="chord">Chord-relative (equal-tempered roots)</SelectItem>
+                    <SelectItem value="key">Key-anchored (chain of fifths from tonic)</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
+              {anchoring === "key" && (
+                <>
+                  <div className="space-y-2">
+                    <Label htmlFor="tonic">Tonic</Label>
+                    <Select value={tonic} onValueChange={setTonic}>
+                      <SelectTrigger id="tonic" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TONICS.map((name) => (
+                          <SelectItem key={name} value={name}>
+                            {name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="gamut">Gamut (wolf between last and first)</Label>
+                    <Select value={String(wolfPosition)} onValueChange={(value) => setWolfPosition(Number(value))}>
+                      <SelectTrigger id="gamut" className="w-full">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {gamutOptions.map((option) => (
+                          <SelectItem key={option.position} value={String(option.position)}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="tempo">Starting Tempo (quarter notes per minute)</Label>
+              <Input
+                id="tempo"
+                type="number"
+                min="1"
+                value={tempo}
+                onChange={(e) => setTempo(Number.parseInt(e.target.value))}
+              />
+              <p className="text-xs text-muted-foreground">
+                Durations are musical (<code>duration=q</code>, <code>duration=2</code> beats); the tempo sets playback
+                and MIDI timing alike. Change it mid-sequence with <code>@tempo 90</code> or{" "}
+                <code>@tempo 120 -&gt; 80 over 4 bars</code>
+              </p>
             </div>
 
             <div className="flex flex-wrap gap-3">
@@ -358,13 +876,13 @@ export default function PythagoreanChordTool() {
 
             <div className="flex flex-wrap gap-3">
               <Button
-                onClick={exportPythagoreanMIDI}
+                onClick={exportTunedMIDI}
                 disabled={frequencies.length === 0}
                 variant="outline"
                 className="flex-1 min-w-[180px] bg-transparent"
               >
                 <Download className="mr-2 h-4 w-4" />
-                Export Pythagorean MIDI
+                Export {tuningSystem.name} MIDI
               </Button>
               <Button
                 onClick={exportEqualTemperamentMIDI}
@@ -377,14 +895,48 @@ export default function PythagoreanChordTool() {
               </Button>
             </div>
 
+            <div className="flex flex-wrap gap-3">
+              <Button
+                onClick={() => exportTuningFiles("scala")}
+                variant="outline"
+                className="flex-1 min-w-[180px] bg-transparent"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export Tuning (.scl + .kbm)
+              </Button>
+              <Button
+                onClick={() => exportTuningFiles("tun")}
+                variant="outline"
+                className="flex-1 min-w-[180px] bg-transparent"
+              >
+                <Download className="mr-2 h-4 w-4" />
+                Export Tuning (.tun)
+              </Button>
+            </div>
+
             {status && (
               <div className="rounded-lg bg-muted p-3 text-sm font-medium text-muted-foreground">{status}</div>
             )}
           </CardContent>
         </Card>
 
+        {/* Key Character */}
+        {tuningSystem instanceof WellTemperament && <KeyCharacter temperament={tuningSystem} />}
+
         {/* Frequency Display */}
-        {frequencies.length > 0 && <FrequencyDisplay frequencies={frequencies} />}
+        {frequencies.length > 0 && (
+          <FrequencyDisplay
+            frequencies={frequencies}
+            tuningName={tuningSystem.name}
+            edo={tuningSystem instanceof EqualDivisionTuning ? tuningSystem : undefined}
+            compareToPythagorean={
+              tuningSystemId === "edo" || tuningSystemId === "regular" || tuningSystem instanceof WellTemperament
+            }
+            referencePitch={referencePitch}
+            tempo={tempo}
+            tempoChanges={tempoChanges}
+          />
+        )}
       </div>
     </div>
   )
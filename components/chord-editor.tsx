@@ -0,0 +1,233 @@
+"use client"
+
+import { Fragment, useRef, useState, type KeyboardEvent } from "react"
+import { cn } from "@/lib/utils"
+import { Button } from "@/components/ui/button"
+import { ChordTokenizer, type Completion, type TokenType } from "@/lib/tokenizer"
+import { Parser } from "@/lib/parser"
+import type { Diagnostic } from "@/lib/diagnostics"
+
+interface ChordEditorProps {
+  value: string
+  onChange: (value: string) => void
+  diagnostics: Diagnostic[]
+  placeholder?: string
+}
+
+const tokenClasses: Record<TokenType, string> = {
+  fundamental: "text-sky-600 dark:text-sky-400",
+  interval: "text-emerald-600 dark:text-emerald-400",
+  literal: "text-violet-600 dark:text-violet-400",
+  option: "text-amber-600 dark:text-amber-400",
+  symbol: "text-sky-600 dark:text-sky-400",
+  numeral: "text-sky-600 dark:text-sky-400",
+  directive: "text-pink-600 dark:text-pink-400",
+  comment: "text-muted-foreground italic",
+  keyword: "text-pink-600 dark:text-pink-400",
+  section: "text-pink-600 dark:text-pink-400",
+  name: "text-orange-600 dark:text-orange-400",
+  punctuation: "text-muted-foreground",
+}
+
+// Shared by the textarea and the highlight layer so that characters line up
+const layerClasses = "px-3 py-2 font-mono text-sm leading-5 whitespace-pre"
+
+export default function ChordEditor({ value, onChange, diagnostics, placeholder }: ChordEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const highlightRef = useRef<HTMLPreElement>(null)
+  const [completion, setCompletion] = useState<(Completion & { line: number; column: number }) | null>(null)
+  const [selected, setSelected] = useState(0)
+  const [scroll, setScroll] = useState({ top: 0, left: 0 })
+
+  const lines = value.split("\n")
+  const { definitions, source } = Parser.collectDefinitions(lines, [])
+  const names = [...definitions.keys()]
+  const sections = [...Parser.collectSections(source, []).sections.keys()]
+
+  // Offset of the first character of each line
+  const lineOffset = (line: number) => lines.slice(0, line).reduce((sum, text) => sum + text.length + 1, 0)
+
+  const updateCompletion = (text: string, cursor: number, explicit = false) => {
+    const before = text.substring(0, cursor).split("\n")
+    const line = before.length - 1
+    const column = before[line].length
+    const result = ChordTokenizer.complete(text.split("\n")[line], column, explicit, names, sections)
+
+    setCompletion(result ? { ...result, line, column: result.start } : null)
+    setSelected(0)
+  }
+
+  const acceptCompletion = (item: string) => {
+    if (!completion) return
+
+    const offset = lineOffset(completion.line)
+    const next = value.substring(0, offset + completion.start) + item + value.substring(offset + completion.end)
+    const cursor = offset + completion.start + item.length
+    onChange(next)
+    setCompletion(null)
+
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === " " && e.ctrlKey) {
+      e.preventDefault()
+      updateCompletion(value, e.currentTarget.selectionStart, true)
+      return
+    }
+
+    if (!completion) return
+
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault()
+      const step = e.key === "ArrowDown" ? 1 : -1
+      setSelected((selected + step + completion.items.length) % completion.items.length)
+    } else if (e.key === "Enter" || e.key === "Tab") {
+      e.preventDefault()
+      acceptCompletion(completion.items[selected])
+    } else if (e.key === "Escape") {
+      e.preventDefault()
+      setCompletion(null)
+    } else if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") {
+      setCompletion(null)
+    }
+  }
+
+  // Replace the span of a diagnostic with its suggested fix
+  const applyFix = (diagnostic: Diagnostic) => {
+    if (!diagnostic.fix) return
+
+    const line = lines[diagnostic.line - 1] ?? ""
+    const next = [...lines]
+    next[diagnostic.line - 1] =
+      line.slice(0, diagnostic.column - 1) + diagnostic.fix.replacement + line.slice(diagnostic.endColumn - 1)
+    onChange(next.join("\n"))
+  }
+
+  // Split a line at token and diagnostic boundaries so each segment gets one style
+  const renderLine = (line: string, index: number) => {
+    const lineDiagnostics = diagnostics.filter(d => d.line === index + 1)
+    const tokens = ChordTokenizer.tokenize(line, names)
+    const boundaries = new Set<number>([0, line.length])
+    tokens.forEach(token => boundaries.add(token.start))
+    lineDiagnostics.forEach(d => {
+      boundaries.add(Math.min(d.column - 1, line.length))
+      boundaries.add(Math.min(d.endColumn - 1, line.length))
+    })
+
+    const points = [...boundaries].sort((a, b) => a - b)
+    return points.slice(0, -1).map((start, i) => {
+      const end = points[i + 1]
+      const token = tokens.find(t => t.start <= start && start < t.end)
+      const covering = lineDiagnostics.filter(d => d.column - 1 <= start && start < d.endColumn - 1)
+      const severity = covering.some(d => d.severity === "error") ? "error" : covering.length > 0 ? "warning" : null
+
+      return (
+        <span
+          key={start}
+          className={cn(
+            token && tokenClasses[token.type],
+            severity && "underline decoration-wavy underline-offset-4",
+            severity === "error" && "decoration-destructive",
+            severity === "warning" && "decoration-amber-500",
+          )}
+        >
+          {line.substring(start, end)}
+        </span>
+      )
+    })
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="relative min-h-[150px] rounded-md border border-input bg-transparent shadow-xs focus-within:border-ring focus-within:ring-[3px] focus-within:ring-ring/50 dark:bg-input/30">
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className={cn(layerClasses, "pointer-events-none absolute inset-0 m-0 overflow-hidden")}
+        >
+          {lines.map((line, i) => (
+            <Fragment key={i}>
+              {renderLine(line, i)}
+              {"\n"}
+            </Fragment>
+          ))}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          spellCheck={false}
+          placeholder={placeholder}
+          onChange={(e) => {
+            onChange(e.target.value)
+            updateCompletion(e.target.value, e.target.selectionStart)
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setCompletion(null)}
+          onScroll={(e) => {
+            const { scrollTop, scrollLeft } = e.currentTarget
+            if (highlightRef.current) {
+              highlightRef.current.scrollTop = scrollTop
+              highlightRef.current.scrollLeft = scrollLeft
+            }
+            setScroll({ top: scrollTop, left: scrollLeft })
+          }}
+          className={cn(
+            layerClasses,
+            "relative block min-h-[150px] w-full resize-y overflow-auto bg-transparent text-transparent caret-foreground outline-none placeholder:text-muted-foreground selection:bg-primary/20",
+          )}
+        />
+        {completion && (
+          <ul
+            role="listbox"
+            className="absolute z-10 min-w-[8rem] rounded-md border bg-popover p-1 font-mono text-sm text-popover-foreground shadow-md"
+            style={{
+              top: `calc(${completion.line + 1} * 1.25rem + 0.5rem - ${scroll.top}px)`,
+              left: `calc(${completion.column}ch + 0.75rem - ${scroll.left}px)`,
+            }}
+          >
+            {completion.items.map((item, i) => (
+              <li
+                key={item}
+                role="option"
+                aria-selected={i === selected}
+                // Keep focus in the textarea while choosing
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  acceptCompletion(item)
+                }}
+                className={cn("cursor-pointer rounded-sm px-2 py-1", i === selected && "bg-accent text-accent-foreground")}
+              >
+                {item}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {diagnostics.length > 0 && (
+        <ul className="space-y-1 rounded-lg border p-3 font-mono text-xs">
+          {diagnostics.map((diagnostic, i) => (
+            <li key={i} className="flex flex-wrap items-center gap-2">
+              <span className={diagnostic.severity === "error" ? "text-destructive" : "text-amber-600 dark:text-amber-400"}>
+                {diagnostic.severity}
+              </span>
+              <span className="text-muted-foreground">
+                {diagnostic.line}:{diagnostic.column}
+              </span>
+              <span>{diagnostic.message}</span>
+              {diagnostic.fix && (
+                <Button onClick={() => applyFix(diagnostic)} variant="link" size="sm" className="h-auto p-0 text-xs">
+                  {diagnostic.fix.label}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
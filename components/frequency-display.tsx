@@ -1,69 +1,191 @@
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { PYTHAGOREAN, PythagoreanTuning, type EqualDivisionTuning, type NoteData } from "@/lib/tuning"
+import type { ArpeggioOptions } from "@/lib/arpeggio"
+import { Dynamics, type Articulation } from "@/lib/dynamics"
+import { DEFAULT_TIME_SIGNATURE, Timeline, type TempoChange, type TimeSignature } from "@/lib/timeline"
+import VoiceLanes, { MAIN_VOICE } from "@/components/voice-lanes"
 
 interface FrequencyDisplayProps {
   frequencies: Array<{
     fundamental: string
+    symbol?: string
+    section?: string
+    voice?: string
+    rest?: boolean
     fundamentalFreq: number
     intervals: string[]
     duration: number
-    pythagoreanNotes: Array<{ interval: string; frequency: number; ratio: number }>
-    equalTemperamentNotes: Array<{ interval: string; frequency: number }>
+    start?: number
+    bar?: number
+    beat?: number
+    timeSignature?: TimeSignature
+    velocity?: number
+    articulation?: Articulation
+    accents?: boolean[]
+    arpeggio?: ArpeggioOptions
+    tunedNotes: NoteData[]
+    equalTemperamentNotes: Array<{ interval: string; frequency: number; cents: number }>
     frequencies: number[]
   }>
+  tuningName?: string
+  edo?: EqualDivisionTuning
+  compareToPythagorean?: boolean
+  referencePitch?: { note: string; frequency: number }
+  tempo?: number
+  tempoChanges?: TempoChange[]
 }
 
-export default function FrequencyDisplay({ frequencies }: FrequencyDisplayProps) {
+type AnalyzedChord = FrequencyDisplayProps["frequencies"][number]
+
+export default function FrequencyDisplay({
+  frequencies,
+  tuningName = "Pythagorean",
+  edo,
+  compareToPythagorean = edo !== undefined,
+  referencePitch = { note: "A4", frequency: 440 },
+  tempo = 120,
+  tempoChanges = [],
+}: FrequencyDisplayProps) {
+  const timeline = new Timeline(tempo > 0 ? tempo : 120, tempoChanges)
+
+  // Position, length, dynamics and arpeggio in musical terms,
+  // e.g. "Bar 2, beat 3 · 2 beats (1.00s) · ♩ = 120 · mf staccato · arp up"
+  const describeTiming = (chord: AnalyzedChord) => {
+    const beats = chord.duration / Timeline.beatLength(chord.timeSignature ?? DEFAULT_TIME_SIGNATURE)
+    const seconds = timeline.seconds(chord.start ?? 0, chord.duration)
+    const position = chord.bar !== undefined ? `Bar ${chord.bar}, beat ${chord.beat} · ` : ""
+    const tempo = Math.round(timeline.tempoAt(chord.start ?? 0))
+    const dynamics = chord.rest
+      ? ""
+      : ` · ${Dynamics.marking(chord.velocity ?? Dynamics.defaultVelocity)}${chord.articulation ? ` ${chord.articulation}` : ""}`
+    const arpeggio = chord.arpeggio
+      ? chord.arpeggio.pattern && chord.arpeggio.pattern !== "off"
+        ? ` · arp ${chord.arpeggio.pattern}`
+        : ` · strum ${chord.arpeggio.strum}ms`
+      : ""
+    return `${position}${Number(beats.toFixed(3))} beat${beats === 1 ? "" : "s"} (${seconds.toFixed(2)}s) · ♩ = ${tempo}${dynamics}${arpeggio}`
+  }
+
+  // Consecutive chords of the same section and voice form one group (a section played twice appears twice)
+  const groups: Array<{ section?: string; voice?: string; chords: Array<{ chord: AnalyzedChord; index: number }> }> = []
+  frequencies.forEach((chord, index) => {
+    const last = groups[groups.length - 1]
+    if (last && last.section === chord.section && last.voice === chord.voice) {
+      last.chords.push({ chord, index })
+    } else {
+      groups.push({ section: chord.section, voice: chord.voice, chords: [{ chord, index }] })
+    }
+  })
+  const hasVoices = frequencies.some(chord => chord.voice !== undefined)
+
   return (
     <Card className="shadow-lg">
       <CardHeader>
         <CardTitle>Frequency Analysis</CardTitle>
+        <CardDescription>
+          Reference pitch: {referencePitch.note} = {referencePitch.frequency} Hz
+        </CardDescription>
       </CardHeader>
       <CardContent className="space-y-6">
-        {frequencies.map((chord, chordIndex) => (
-          <div key={chordIndex} className="space-y-2">
-            <h3 className="font-semibold text-lg flex items-center gap-2">
-              <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs">
-                {chordIndex + 1}
-              </span>
-              Chord: {chord.fundamental} - Duration: {chord.duration}s
-            </h3>
+        {hasVoices && <VoiceLanes chords={frequencies} />}
+        {groups.map((group, groupIndex) => (
+          <section key={groupIndex} className="space-y-4">
+            {(group.section || hasVoices) && (
+              <h2 className="border-b pb-1 text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+                {group.section && `[${group.section}]`}
+                {group.section && hasVoices && " · "}
+                {hasVoices && `voice ${group.voice ?? MAIN_VOICE}`}
+              </h2>
+            )}
+            {group.chords.map(({ chord, index: chordIndex }) => (
+              <div key={chordIndex} className="space-y-2">
+                <h3 className="font-semibold text-lg flex items-center gap-2">
+                  <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-primary-foreground text-xs">
+                    {chordIndex + 1}
+                  </span>
+                  {chord.rest
+                    ? "Rest"
+                    : `Chord: ${chord.symbol ? `${chord.symbol} (${chord.fundamental})` : chord.fundamental}`}
+                  <span className="text-sm font-normal text-muted-foreground">{describeTiming(chord)}</span>
+                </h3>
 
-            <div className="overflow-x-auto rounded-lg border">
-              <Table>
-                <TableHeader>
-                  <TableRow className="bg-muted/50">
-                    <TableHead className="font-semibold">Interval</TableHead>
-                    <TableHead className="font-semibold">Pythagorean (Hz)</TableHead>
-                    <TableHead className="font-semibold">Equal Temp (Hz)</TableHead>
-                    <TableHead className="font-semibold">Difference (cents)</TableHead>
-                    <TableHead className="font-semibold">Ratio</TableHead>
-                  </TableRow>
-                </TableHeader>
-                <TableBody>
-                  {chord.pythagoreanNotes.map((note, i) => {
-                    const etNote = chord.equalTemperamentNotes[i]
-                    const centsDiff = (1200 * Math.log2(note.frequency / etNote.frequency))
+                {!chord.rest && (
+                  <div className="overflow-x-auto rounded-lg border">
+                    <Table>
+                      <TableHeader>
+                        <TableRow className="bg-muted/50">
+                          <TableHead className="font-semibold">Interval</TableHead>
+                          <TableHead className="font-semibold">{tuningName} (Hz)</TableHead>
+                          <TableHead className="font-semibold">Equal Temp (Hz)</TableHead>
+                          <TableHead className="font-semibold">Cents</TableHead>
+                          <TableHead className="font-semibold">Difference (cents)</TableHead>
+                          {edo && <TableHead className="font-semibold">Step</TableHead>}
+                          {compareToPythagorean && <TableHead className="font-semibold">vs Pythagorean (cents)</TableHead>}
+                          <TableHead className="font-semibold">Ratio</TableHead>
+                          <TableHead className="font-semibold">Monzo</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {chord.tunedNotes.map((note, i) => {
+                          const etNote = chord.equalTemperamentNotes[i]
+                          const centsDiff = note.cents - etNote.cents
+                          // How far the tuned interval lies from the Pythagorean ratio of the same interval
+                          const literal = PythagoreanTuning.isLiteral(note.interval)
+                          const pythagoreanDiff = literal ? 0 : note.cents - 1200 * Math.log2(PYTHAGOREAN.getIntervalRatio(note.interval))
 
-                    return (
-                      <TableRow key={i} className="hover:bg-muted/30">
-                        <TableCell className="font-mono font-semibold">{note.interval}</TableCell>
-                        <TableCell className="font-mono">{note.frequency.toFixed(2)}</TableCell>
-                        <TableCell className="font-mono">{etNote.frequency.toFixed(2)}</TableCell>
-                        <TableCell className="font-mono">
-                          <span className={centsDiff > 0 ? "text-accent" : "text-primary"}>
-                            {centsDiff > 0 ? "+" : ""}
-                            {centsDiff.toFixed(2)}
-                          </span>
-                        </TableCell>
-                        <TableCell className="font-mono">{note.ratio.toFixed(4)}</TableCell>
-                      </TableRow>
-                    )
-                  })}
-                </TableBody>
-              </Table>
-            </div>
-          </div>
+                          return (
+                            <TableRow key={i} className="hover:bg-muted/30">
+                              <TableCell className="font-mono font-semibold">
+                                {note.interval}
+                                {chord.accents?.[i] && <span title="Accent"> &gt;</span>}
+                              </TableCell>
+                              <TableCell className="font-mono">{note.frequency.toFixed(2)}</TableCell>
+                              <TableCell className="font-mono">{etNote.frequency.toFixed(2)}</TableCell>
+                              <TableCell className="font-mono">{note.cents.toFixed(2)}</TableCell>
+                              <TableCell className="font-mono">
+                                <span className={centsDiff > 0 ? "text-accent" : "text-primary"}>
+                                  {centsDiff > 0 ? "+" : ""}
+                                  {centsDiff.toFixed(2)}
+                                </span>
+                              </TableCell>
+                              {edo && (
+                                <TableCell className="font-mono">
+                                  {literal ? "—" : `${edo.step(note.interval)}\\${edo.steps}`}
+                                </TableCell>
+                              )}
+                              {compareToPythagorean && (
+                                <TableCell className="font-mono">
+                                  {literal ? (
+                                    "—"
+                                  ) : (
+                                    <span className={pythagoreanDiff > 0 ? "text-accent" : "text-primary"}>
+                                      {pythagoreanDiff > 0 ? "+" : ""}
+                                      {pythagoreanDiff.toFixed(2)}
+                                    </span>
+                                  )}
+                                </TableCell>
+                              )}
+                              <TableCell className="font-mono">
+                                {note.exactRatio
+                                  ? note.exactRatio.toString()
+                                  : literal
+                                    ? note.interval
+                                    : note.ratio.toFixed(4)}
+                              </TableCell>
+                              <TableCell className="font-mono text-muted-foreground">
+                                {note.exactRatio ? note.exactRatio.toMonzoString() : "—"}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
         ))}
       </CardContent>
     </Card>
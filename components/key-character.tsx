@@ -0,0 +1,75 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { Ratio } from "@/lib/ratio"
+import type { WellTemperament } from "@/lib/well-temperaments"
+
+interface KeyCharacterProps {
+  temperament: WellTemperament
+}
+
+const PURE_MAJOR_THIRD = Ratio.of(5, 4).cents()
+const PURE_MINOR_THIRD = Ratio.of(6, 5).cents()
+const PURE_FIFTH = Ratio.of(3, 2).cents()
+
+// Deviation from a pure interval, coloured like the cents differences in the frequency analysis
+function Deviation({ cents }: { cents: number }) {
+  const rounded = Math.round(cents * 10) / 10 || 0
+  return (
+    <span className={rounded > 0 ? "text-accent" : rounded < 0 ? "text-primary" : undefined}>
+      {rounded > 0 ? "+" : ""}
+      {rounded.toFixed(1)}
+    </span>
+  )
+}
+
+// How far the thirds and fifth of the major and minor triad in every key lie from pure
+export default function KeyCharacter({ temperament }: KeyCharacterProps) {
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle>Key Character</CardTitle>
+        <CardDescription>
+          {temperament.name}: deviation of each triad's thirds from pure 5/4 and 6/5 and of its fifth from 3/2, in cents
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto rounded-lg border">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-muted/50">
+                <TableHead className="font-semibold">Key</TableHead>
+                <TableHead className="font-semibold">Major: 3rd</TableHead>
+                <TableHead className="font-semibold">Major: upper b3</TableHead>
+                <TableHead className="font-semibold">Minor: b3</TableHead>
+                <TableHead className="font-semibold">Minor: upper 3rd</TableHead>
+                <TableHead className="font-semibold">Fifth</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {temperament.keyCharacter().map((key) => (
+                <TableRow key={key.key} className="hover:bg-muted/30">
+                  <TableCell className="font-mono font-semibold">{key.key}</TableCell>
+                  <TableCell className="font-mono">
+                    <Deviation cents={key.major.third - PURE_MAJOR_THIRD} />
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    <Deviation cents={key.major.upperThird - PURE_MINOR_THIRD} />
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    <Deviation cents={key.minor.third - PURE_MINOR_THIRD} />
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    <Deviation cents={key.minor.upperThird - PURE_MAJOR_THIRD} />
+                  </TableCell>
+                  <TableCell className="font-mono">
+                    <Deviation cents={key.fifth - PURE_FIFTH} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,11 +2,14 @@
 
 import { cn } from "@/lib/utils"
 import { useRef } from "react"
+import { DEFAULT_REFERENCE, PYTHAGOREAN, PythagoreanTuning, type ReferencePitch, type TuningSystem } from "@/lib/tuning"
 
 interface PianoKeyboardProps {
   onKeyPress: (note: string) => void
   selectedFundamental: string | null
   selectedIntervals: string[]
+  referencePitch?: ReferencePitch
+  tuningSystem?: TuningSystem
 }
 
 const whiteKeys = ["C", "D", "E", "F", "G", "A", "B"]
@@ -18,35 +21,13 @@ const blackKeyPattern = [
   { note: "A#", position: 5 },
 ]
 
-const getFrequency = (note: string) => {
-  const noteMap: { [key: string]: number } = {
-    C: 0,
-    "C#": 1,
-    D: 2,
-    "D#": 3,
-    E: 4,
-    F: 5,
-    "F#": 6,
-    G: 7,
-    "G#": 8,
-    A: 9,
-    "A#": 10,
-    B: 11,
-  }
-
-  const match = note.match(/^([A-G]#?)(\d+)$/)
-  if (!match) return 440
-
-  const [, noteName, octaveStr] = match
-  const octave = Number.parseInt(octaveStr)
-  const noteNumber = noteMap[noteName]
-
-  // A4 = 440 Hz, calculate from there
-  const semitonesFromA4 = (octave - 4) * 12 + (noteNumber - 9)
-  return 440 * Math.pow(2, semitonesFromA4 / 12)
-}
-
-export default function PianoKeyboard({ onKeyPress, selectedFundamental, selectedIntervals }: PianoKeyboardProps) {
+export default function PianoKeyboard({
+  onKeyPress,
+  selectedFundamental,
+  selectedIntervals,
+  referencePitch = DEFAULT_REFERENCE,
+  tuningSystem = PYTHAGOREAN,
+}: PianoKeyboardProps) {
   const audioContextRef = useRef<AudioContext | null>(null)
 
   const octaves = [0, 1, 2, 3, 4, 5, 6, 7, 8]
@@ -77,7 +58,17 @@ export default function PianoKeyboard({ onKeyPress, selectedFundamental, selecte
       audioContextRef.current = new AudioContext()
     }
 
-    const freq = getFrequency(note)
+    let freq: number
+    try {
+      freq = PythagoreanTuning.keyFrequency(note, tuningSystem, referencePitch)
+    } catch {
+      // Retuned keyboards leave some keys unmapped
+      if (tuningSystem.noteToFrequency) {
+        return
+      }
+      // Custom reference is incomplete while being edited
+      freq = PythagoreanTuning.noteToFrequency(note)
+    }
     const osc = audioContextRef.current.createOscillator()
     const gain = audioContextRef.current.createGain()
 
@@ -0,0 +1,79 @@
+"use client"
+
+import { useState, type ChangeEvent } from "react"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Textarea } from "@/components/ui/textarea"
+import { Upload } from "lucide-react"
+import { Scala, ScalaTuning } from "@/lib/scala"
+
+interface ScalaImportProps {
+  onImport: (tuning: ScalaTuning) => void
+  onError: (message: string) => void
+}
+
+// Paste or upload a Scala scale (.scl) and optional keyboard mapping (.kbm) to use as the tuning
+export default function ScalaImport({ onImport, onError }: ScalaImportProps) {
+  const [scale, setScale] = useState("")
+  const [mapping, setMapping] = useState("")
+
+  const upload = (setText: (text: string) => void) => async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (file) {
+      setText(await file.text())
+    }
+  }
+
+  const useScale = () => {
+    let parsed
+    try {
+      parsed = Scala.parseScale(scale)
+    } catch (error) {
+      onError(`Scale file: ${(error as Error).message}`)
+      return
+    }
+    try {
+      onImport(new ScalaTuning(parsed, mapping.trim() ? Scala.parseMapping(mapping) : undefined))
+    } catch (error) {
+      onError(`Keyboard mapping: ${(error as Error).message}`)
+    }
+  }
+
+  const files = [
+    { id: "scalaScale", label: "Scale (.scl)", accept: ".scl", text: scale, setText: setScale, placeholder: "! Paste a .scl file" },
+    { id: "scalaMapping", label: "Keyboard mapping (.kbm, optional)", accept: ".kbm", text: mapping, setText: setMapping, placeholder: "! Paste a .kbm file" },
+  ]
+
+  return (
+    <div className="space-y-3 rounded-lg border p-3">
+      <div className="grid gap-3 md:grid-cols-2">
+        {files.map(file => (
+          <div key={file.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <Label htmlFor={file.id}>{file.label}</Label>
+              <Button variant="outline" size="sm" asChild>
+                <label className="cursor-pointer">
+                  <Upload className="mr-2 h-4 w-4" />
+                  Upload
+                  <input type="file" accept={file.accept} className="hidden" onChange={upload(file.setText)} />
+                </label>
+              </Button>
+            </div>
+            <Textarea
+              id={file.id}
+              value={file.text}
+              onChange={event => file.setText(event.target.value)}
+              placeholder={file.placeholder}
+              className="h-32 font-mono text-xs"
+              spellCheck={false}
+            />
+          </div>
+        ))}
+      </div>
+      <Button size="sm" onClick={useScale} disabled={!scale.trim()}>
+        Use as tuning
+      </Button>
+    </div>
+  )
+}
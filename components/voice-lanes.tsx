@@ -0,0 +1,47 @@
+interface VoiceLanesProps {
+  chords: Array<{
+    fundamental: string
+    symbol?: string
+    voice?: string
+    rest?: boolean
+    start?: number
+    duration: number
+  }>
+}
+
+// Name shown for chords written before any "voice" line
+export const MAIN_VOICE = "Main"
+
+// One row per voice with its chords laid out along the sequence, so parallel rhythms line up
+export default function VoiceLanes({ chords }: VoiceLanesProps) {
+  const voices = [...new Set(chords.map(chord => chord.voice))]
+  const length = Math.max(...chords.map(chord => (chord.start ?? 0) + chord.duration))
+
+  return (
+    <div className="space-y-1 rounded-lg border p-3">
+      {voices.map(voice => (
+        <div key={voice ?? ""} className="flex items-center gap-3">
+          <span className="w-20 shrink-0 truncate font-mono text-xs text-muted-foreground">{voice ?? MAIN_VOICE}</span>
+          <div className="relative h-7 flex-1 rounded bg-muted/50">
+            {chords
+              .map((chord, index) => ({ chord, index }))
+              .filter(({ chord }) => chord.voice === voice && !chord.rest)
+              .map(({ chord, index }) => (
+                <div
+                  key={index}
+                  title={`${index + 1}. ${chord.symbol ?? chord.fundamental}`}
+                  className="absolute inset-y-0.5 truncate rounded-sm border border-background bg-primary px-1 font-mono text-xs leading-6 text-primary-foreground"
+                  style={{
+                    left: `${((chord.start ?? 0) / length) * 100}%`,
+                    width: `${(chord.duration / length) * 100}%`,
+                  }}
+                >
+                  {chord.symbol ?? chord.fundamental}
+                </div>
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
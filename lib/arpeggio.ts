@@ -0,0 +1,178 @@
+// Arpeggios and Strums
+// Breaks a chord into timed notes (arpeggio patterns, strummed onsets) in quarter notes,
+// so that AudioPlayer and MIDIExporter play exactly the same notes at the same times
+
+import { Dynamics, type Articulation } from './dynamics';
+import { Timeline, type TimeSignature } from './timeline';
+
+export type ArpeggioPattern = 'up' | 'down' | 'updown' | 'random';
+
+// How a chord is broken, per chord ("arp=up, rate=s, range=2", "strum=30ms") or from "@arp" / "@strum"
+export interface ArpeggioOptions {
+  pattern?: ArpeggioPattern | 'off';
+  rate?: number;     // Length of each arpeggio step in quarter notes
+  range?: number;    // Octaves the arpeggio spans
+  strum?: number;    // Milliseconds between the onsets of successive notes (bottom to top)
+}
+
+// Note of a chord placed on the timeline
+export interface ScheduledNote {
+  index: number;     // Index of the chord note
+  octave: number;    // Octaves above the chord note
+  start: number;     // Position in quarter notes
+  end: number;
+}
+
+// Tolerance for step counts built from triplets and dotted values
+const EPSILON = 1e-9;
+
+export class Arpeggio {
+  static patterns: ArpeggioPattern[] = ['up', 'down', 'updown', 'random'];
+
+  static defaultRate = 0.5;   // Eighth notes
+  static minRate = 0.125;     // 32nd notes
+  static maxSteps = 1024;     // Steps in one chord; a longer arpeggio takes longer steps
+  static maxRange = 4;
+
+  /**
+   * Parse an arpeggio pattern
+   * @param text - "up", "down", "updown", "random" or "off"
+   * @returns Pattern
+   */
+  static parsePattern(text: string): ArpeggioPattern | 'off' {
+    const pattern = text.trim().toLowerCase();
+    if (pattern !== 'off' && !this.patterns.includes(pattern as ArpeggioPattern)) {
+      throw new Error(`Invalid arpeggio pattern: ${text}. Expected ${this.patterns.join(', ')} or off`);
+    }
+    return pattern as ArpeggioPattern | 'off';
+  }
+
+  /**
+   * Parse the length of an arpeggio step ("s", "e", "0.5")
+   * @param text - Duration
+   * @param time - Time signature that defines the beat
+   * @returns Quarter notes
+   */
+  static parseRate(text: string, time?: TimeSignature): number {
+    const rate = Timeline.parseDuration(text, time);
+    if (rate < this.minRate - EPSILON) {
+      throw new Error(`Arpeggio rate too fast: ${text}. Each step must last at least a 32nd note`);
+    }
+    return rate;
+  }
+
+  /**
+   * Parse an octave range
+   * @param text - Number of octaves (1-4)
+   * @returns Octaves
+   */
+  static parseRange(text: string): number {
+    const range = /^\d+$/.test(text.trim()) ? parseInt(text) : NaN;
+    if (!(range >= 1 && range <= this.maxRange)) {
+      throw new Error(`Invalid range: ${text}. Expected a number of octaves from 1 to ${this.maxRange}`);
+    }
+    return range;
+  }
+
+  /**
+   * Parse a strum delay ("30ms", "30", "0" or "off")
+   * @param text - Delay between successive notes
+   * @returns Milliseconds
+   */
+  static parseStrum(text: string): number {
+    const value = text.trim().toLowerCase();
+    if (value === 'off') {
+      return 0;
+    }
+    const match = value.match(/^(\d+(?:\.\d+)?)\s*(ms)?$/);
+    if (!match || parseFloat(match[1]) > 1000) {
+      throw new Error(`Invalid strum: ${text}. Expected a delay in milliseconds like "30ms"`);
+    }
+    return parseFloat(match[1]);
+  }
+
+  /**
+   * Place the notes of a chord on the timeline
+   * Arpeggios play one note per step, from the lowest note up (or down) through the octave range;
+   * strums start each note a little after the one below and release them together.
+   * Without either, all notes sound together. Articulation shortens every note alike.
+   * @param frequencies - Frequencies of the chord notes
+   * @param chord - Start and duration in quarter notes, arpeggio options and articulation
+   * @param timeline - Timeline that converts strum delays to quarter notes
+   * @returns Notes with their positions
+   */
+  static schedule(
+    frequencies: number[],
+    chord: { start?: number; duration: number; arpeggio?: ArpeggioOptions; articulation?: Articulation },
+    timeline: Timeline
+  ): ScheduledNote[] {
+    const start = chord.start ?? 0;
+    const gate = Dynamics.gate(chord.articulation);
+    const options = chord.arpeggio ?? {};
+    const ascending = frequencies.map((_, i) => i).sort((a, b) => frequencies[a] - frequencies[b]);
+
+    if (options.pattern && options.pattern !== 'off' && frequencies.length > 0) {
+      const rate = Math.max(options.rate ?? this.defaultRate, this.minRate, chord.duration / this.maxSteps);
+      const pool = Array.from({ length: options.range ?? 1 }, (_, octave) =>
+        ascending.map(index => ({ index, octave }))
+      ).flat();
+      const steps = Math.max(1, Math.ceil(chord.duration / rate - EPSILON));
+      const order = this.order(pool.length, options.pattern, steps, Math.round(start * 480) + frequencies.length);
+
+      return order.map((note, step) => {
+        const stepStart = start + step * rate;
+        const length = Math.min(rate, chord.duration - step * rate);
+        return { ...pool[note], start: stepStart, end: stepStart + length * gate };
+      });
+    }
+
+    // Strum delays are in real time, so they stay the same at any tempo
+    const delay = options.strum ? (options.strum / 1000) * (timeline.tempoAt(start) / 60) : 0;
+    const end = start + chord.duration * gate;
+    return ascending.map((index, i) => ({
+      index,
+      octave: 0,
+      start: start + Math.min(i * delay, (chord.duration * gate) / 2),   // Spread over at most half the chord
+      end
+    }));
+  }
+
+  /**
+   * Order of pool notes for each step of an arpeggio
+   * @param size - Number of notes in the pool (ascending)
+   * @param pattern - Arpeggio pattern
+   * @param steps - Number of steps
+   * @param seed - Seed for the random pattern (the same chord always plays the same order)
+   * @returns Pool index for each step
+   */
+  private static order(size: number, pattern: ArpeggioPattern, steps: number, seed: number): number[] {
+    const cycle = pattern === 'down'
+      ? Array.from({ length: size }, (_, i) => size - 1 - i)
+      : pattern === 'updown' && size > 1
+        ? [...Array.from({ length: size }, (_, i) => i), ...Array.from({ length: size - 2 }, (_, i) => size - 2 - i)]
+        : Array.from({ length: size }, (_, i) => i);
+
+    if (pattern !== 'random') {
+      return Array.from({ length: steps }, (_, step) => cycle[step % cycle.length]);
+    }
+
+    // Mulberry32 generator; consecutive steps never repeat a note
+    let state = seed >>> 0;
+    const random = () => {
+      state = (state + 0x6D2B79F5) >>> 0;
+      let t = Math.imul(state ^ (state >>> 15), 1 | state);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+    const order: number[] = [];
+    for (let step = 0; step < steps; step++) {
+      const previous = order[step - 1];
+      let note = Math.floor(random() * size);
+      if (size > 1 && note === previous) {
+        note = (note + 1 + Math.floor(random() * (size - 1))) % size;
+      }
+      order.push(note);
+    }
+    return order;
+  }
+}
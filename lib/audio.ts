@@ -1,10 +1,24 @@
 // Web Audio API playback system
 // Generates and plays sine waves for each chord tone
 
+import { Arpeggio, type ArpeggioOptions } from './arpeggio';
+import { Dynamics, type ChordDynamics } from './dynamics';
+import { Timeline } from './timeline';
+
+// Chord note an oscillator plays, so that it can be retuned while it sounds
+interface NoteSource {
+  chord: number;    // Index in the sequence
+  note: number;     // Index of the chord note
+  octave: number;   // Octaves above the chord note (arpeggio range)
+}
+
+// Time constant of the glide when notes are retuned while playing (seconds)
+const RETUNE_GLIDE = 0.02;
+
 export class AudioPlayer {
   private audioContext: AudioContext | null = null;
   private isPlaying = false;
-  private currentScheduledNodes: { oscillator: OscillatorNode; gainNode: GainNode }[] = [];
+  private currentScheduledNodes: { oscillator: OscillatorNode; gainNode: GainNode; source?: NoteSource }[] = [];
   private masterGain: GainNode | null = null;
 
   /**
@@ -30,12 +44,18 @@ export class AudioPlayer {
    * @param startTime - Start time in audio context time
    * @param duration - Duration in seconds
    * @param volume - Volume multiplier (0-1)
+   * @param destination - Node the note is mixed into (defaults to the master gain)
+   * @param attack - Attack time in seconds
+   * @param source - Chord note the oscillator plays
    */
   private scheduleNote(
     frequency: number,
     startTime: number,
     duration: number,
-    volume = 0.15
+    volume = 0.15,
+    destination?: AudioNode,
+    attack = 0.01,
+    source?: NoteSource
   ): OscillatorNode {
     if (!this.audioContext || !this.masterGain) {
       throw new Error('Audio context not initialized');
@@ -47,66 +67,116 @@ export class AudioPlayer {
     oscillator.type = 'sine';
     oscillator.frequency.value = frequency;
 
-    // Envelope: quick attack, sustain, quick release
+    // Envelope: quick attack, sustain, quick release (shortened for short arpeggio notes)
+    const release = Math.min(0.05, duration / 2);
     gainNode.gain.setValueAtTime(0, startTime);
-    gainNode.gain.linearRampToValueAtTime(volume, startTime + 0.01); // 10ms attack
-    gainNode.gain.setValueAtTime(volume, startTime + duration - 0.05); // Sustain
+    gainNode.gain.linearRampToValueAtTime(volume, startTime + Math.min(attack, duration / 2)); // 10ms attack by default
+    gainNode.gain.setValueAtTime(volume, startTime + duration - release); // Sustain
     gainNode.gain.linearRampToValueAtTime(0, startTime + duration); // 50ms release
 
     oscillator.connect(gainNode);
-    gainNode.connect(this.masterGain);
+    gainNode.connect(destination ?? this.masterGain);
 
     oscillator.start(startTime);
     oscillator.stop(startTime + duration);
 
-    this.currentScheduledNodes.push({ oscillator, gainNode });
+    this.currentScheduledNodes.push({ oscillator, gainNode, source });
 
     return oscillator;
   }
 
   /**
    * Play a single chord
-   * @param frequencies - Array of frequencies in Hz
-   * @param startTime - Start time in audio context time
-   * @param duration - Duration in seconds
+   * Notes follow the chord's arpeggio or strum; dynamics set the level of each note, accents sharpen
+   * the attack, staccato shortens the notes and legato softens the attack and lets the notes ring
+   * into the next chord.
+   * @param chord - Frequencies in Hz, start and duration in quarter notes, dynamics and arpeggio
+   * @param startTime - Audio context time of the start of the sequence
+   * @param timeline - Timeline that converts positions to seconds
+   * @param destination - Node the chord is mixed into
+   * @param index - Index of the chord in the sequence
+   */
+  private playChord(
+    chord: ChordDynamics & { frequencies: number[]; start: number; duration: number; arpeggio?: ArpeggioOptions },
+    startTime: number,
+    timeline: Timeline,
+    destination?: AudioNode,
+    index = 0
+  ): void {
+    const volume = 0.15 / Math.sqrt(chord.frequencies.length); // Adjust volume based on number of notes
+    const legato = chord.articulation === 'legato';
+    const chordEnd = chord.start + chord.duration;
+    const overlap = legato ? timeline.seconds(chordEnd, Dynamics.legatoOverlap) : 0;
+
+    Arpeggio.schedule(chord.frequencies, chord, timeline).forEach(note => {
+      const accent = chord.accents?.[note.index] ?? false;
+      const velocity = Dynamics.noteVelocity(chord.velocity, accent, chord.articulation);
+      const attack = accent ? 0.005 : legato ? 0.03 : 0.01;
+      const length = timeline.seconds(note.start, note.end - note.start) + (note.end >= chordEnd - 1e-9 ? overlap : 0);
+      this.scheduleNote(
+        chord.frequencies[note.index] * Math.pow(2, note.octave),
+        startTime + timeline.secondsAt(note.start),
+        length,
+        volume * Dynamics.gain(velocity),
+        destination,
+        attack,
+        { chord: index, note: note.index, octave: note.octave }
+      );
+    });
+  }
+
+  /**
+   * Create a gain node per voice so that parallel voices are mixed at equal levels
+   * @param voices - Voice names (undefined for the main voice)
+   * @returns Gain node for each voice
    */
-  private playChord(frequencies: number[], startTime: number, duration: number): void {
-    const volume = 0.15 / Math.sqrt(frequencies.length); // Adjust volume based on number of notes
+  private createVoiceMix(voices: Array<string | undefined>): Map<string | undefined, GainNode> {
+    const mix = new Map<string | undefined, GainNode>();
+    const names = [...new Set(voices)];
 
-    frequencies.forEach(freq => {
-      this.scheduleNote(freq, startTime, duration, volume);
+    names.forEach(name => {
+      const gainNode = this.audioContext!.createGain();
+      gainNode.gain.value = 1 / Math.sqrt(names.length); // Keep the sum of voices at the level of one
+      gainNode.connect(this.masterGain!);
+      mix.set(name, gainNode);
     });
+
+    return mix;
   }
 
   /**
    * Play a sequence of chords
-   * @param chordSequence - Array of chord objects with frequencies and durations
-   * @param baseDuration - Base duration in seconds
+   * @param chordSequence - Chords with frequencies, start positions and durations in quarter notes
+   *   (chords without a start follow the previous one), dynamics and arpeggios; chords of different voices may overlap
+   * @param timeline - Timeline that converts positions to seconds
    * @returns Promise that resolves when playback is complete
    */
   async playSequence(
-    chordSequence: Array<{ frequencies: number[]; duration: number }>,
-    baseDuration = 1
+    chordSequence: Array<
+      ChordDynamics & { frequencies: number[]; start?: number; duration: number; voice?: string; arpeggio?: ArpeggioOptions }
+    >,
+    timeline = new Timeline()
   ): Promise<void> {
     await this.init();
 
     this.stop(); // Stop any currently playing audio
     this.isPlaying = true;
 
-    const currentTime = this.audioContext!.currentTime;
-    let scheduleTime = currentTime + 0.1; // Start with small delay
+    const startTime = this.audioContext!.currentTime + 0.1; // Start with small delay
+    let position = 0;
+    let totalDuration = 0;
+    const mix = this.createVoiceMix(chordSequence.map(chord => chord.voice));
 
-    chordSequence.forEach(chord => {
-      const duration = chord.duration * baseDuration;
-      this.playChord(chord.frequencies, scheduleTime, duration);
-      scheduleTime += duration;
+    chordSequence.forEach((chord, index) => {
+      const start = chord.start ?? position;
+      // Rests (no frequencies) leave a silent gap
+      if (chord.frequencies.length > 0) {
+        this.playChord({ ...chord, start }, startTime, timeline, mix.get(chord.voice), index);
+      }
+      position = start + chord.duration;
+      totalDuration = Math.max(totalDuration, timeline.secondsAt(position));
     });
 
-    // Calculate total duration
-    const totalDuration = chordSequence.reduce((sum, chord) => {
-      return sum + (chord.duration * baseDuration);
-    }, 0);
-
     // Return promise that resolves when playback is done
     return new Promise((resolve) => {
       setTimeout(() => {
@@ -117,6 +187,24 @@ export class AudioPlayer {
     });
   }
 
+  /**
+   * Retune the playing sequence: sounding and scheduled notes glide to the new frequencies
+   * (e.g. while the generator of a temperament is swept). Notes are matched by chord and note index,
+   * so the sequence must have the same chords as the one being played.
+   * @param chordSequence - Chords with their new frequencies
+   */
+  retune(chordSequence: Array<{ frequencies: number[] }>): void {
+    if (!this.audioContext || !this.isPlaying) return;
+
+    const currentTime = this.audioContext.currentTime;
+    this.currentScheduledNodes.forEach(({ oscillator, source }) => {
+      const frequency = source && chordSequence[source.chord]?.frequencies[source.note];
+      if (frequency) {
+        oscillator.frequency.setTargetAtTime(frequency * Math.pow(2, source.octave), currentTime, RETUNE_GLIDE);
+      }
+    });
+  }
+
   /**
    * Stop all currently playing/scheduled audio
    */
@@ -0,0 +1,207 @@
+// Chord Symbol Parser
+// Expands lead-sheet chord symbols (Cmaj7, Dm9, G7#11, F/A) into interval lists
+
+import { Intervals, type SpelledInterval } from './intervals';
+import { PythagoreanTuning } from './tuning';
+
+export interface ChordSymbol {
+  fundamental: string;   // Lowest note with octave (the bass for slash chords)
+  intervals: string[];   // Intervals above the fundamental
+}
+
+export class ChordSymbols {
+  static letters = ['C', 'D', 'E', 'F', 'G', 'A', 'B'];
+
+  /**
+   * Parse a chord symbol into a fundamental and interval list
+   * Supports qualities (m, dim, aug, ø, sus2, sus4, 5), sixths and sevenths (6, 69, 7, maj7, mMaj7, dim7),
+   * extensions (9, 11, 13), alterations (b5, #5, b9, #9, #11, b13), altered dominants (7alt), add/no tones and slash bass notes
+   * @param symbol - Chord symbol (e.g., "Cmaj7", "Dm9", "G7#11", "F/A")
+   * @param octave - Octave of the chord root
+   * @returns Fundamental and intervals
+   */
+  static parse(symbol: string, octave = 4): ChordSymbol {
+    const match = symbol.trim().match(/^([A-G][#b]?)([^/]*(?:\/9[^/]*)?)(?:\/([A-G][#b]?))?$/);
+    if (!match) {
+      throw new Error(`Invalid chord symbol: ${symbol}. Expected format like "Cmaj7", "Dm9" or "F/A"`);
+    }
+
+    const root = match[1];
+    const bass = match[3];
+    let rest = match[2].replace(/[()\s,]/g, '');
+
+    // Chord tones keyed by generic degree (1, 3, 5, 7, 9, ...), plus altered tones
+    const tones: { [key: number]: string } = { 1: '1', 3: '3', 5: '5' };
+    const alterations: string[] = [];
+    let seventh = 'b7';
+
+    const take = (pattern: RegExp): RegExpMatchArray | null => {
+      const m = rest.match(pattern);
+      if (m) {
+        rest = rest.slice(m[0].length);
+      }
+      return m;
+    };
+
+    // Quality
+    if (take(/^(mMaj|mmaj|mM|minMaj|minmaj|min\^|m\^|-maj|-M|mΔ|-Δ)/)) {
+      tones[3] = 'b3';
+      seventh = '7';
+    } else if (take(/^(Δ|\^)/)) {
+      seventh = '7';
+      if (!/^\d/.test(rest)) {
+        tones[7] = seventh;
+      }
+    } else if (take(/^(maj|M)/)) {
+      seventh = '7';
+    } else if (take(/^(min|m|-)/)) {
+      tones[3] = 'b3';
+    } else if (take(/^(dim|°|o(?!mit))/)) {
+      tones[3] = 'b3';
+      tones[5] = 'b5';
+      seventh = 'bb7';
+    } else if (take(/^ø/)) {
+      tones[3] = 'b3';
+      tones[5] = 'b5';
+      tones[7] = 'b7';
+    } else if (take(/^(aug|\+)/)) {
+      tones[5] = '#5';
+    }
+
+    // Sixth, seventh and extensions
+    const extension = take(/^(6\/9|69|13|11|9|7|6|5)/);
+    if (extension) {
+      switch (extension[1]) {
+        case '5':
+          delete tones[3];
+          break;
+        case '6':
+          tones[6] = '6';
+          break;
+        case '6/9':
+        case '69':
+          tones[6] = '6';
+          tones[9] = '9';
+          break;
+        case '7':
+          tones[7] = seventh;
+          break;
+        case '9':
+          tones[7] = seventh;
+          tones[9] = '9';
+          break;
+        case '11':
+          tones[7] = seventh;
+          tones[9] = '9';
+          tones[11] = '11';
+          break;
+        case '13':
+          tones[7] = seventh;
+          tones[9] = '9';
+          tones[13] = '13';
+          // Natural 11 clashes with a major third, so it is only implied on minor chords
+          if (tones[3] === 'b3') {
+            tones[11] = '11';
+          }
+          break;
+      }
+    }
+
+    // Suspensions, additions, alterations and omissions
+    while (rest) {
+      let m: RegExpMatchArray | null;
+
+      if ((m = take(/^sus(2|4)?/))) {
+        delete tones[3];
+        const degree = m[1] ? parseInt(m[1]) : 4;
+        tones[degree] = String(degree);
+      } else if ((m = take(/^add([#b]?)(\d+)/))) {
+        tones[parseInt(m[2])] = m[1] + m[2];
+      } else if ((m = take(/^([#b+-])(5|6|9|11|13)/))) {
+        const accidental = m[1] === '+' ? '#' : m[1] === '-' ? 'b' : m[1];
+        const degree = parseInt(m[2]);
+        delete tones[degree];
+        alterations.push(accidental + degree);
+        if (degree > 7 && !tones[7]) {
+          tones[7] = seventh;
+        }
+      } else if (take(/^alt/)) {
+        // Altered dominant: the fifth and ninth are both raised and lowered, and the eleventh is sharp
+        delete tones[5];
+        [9, 11, 13].forEach(degree => delete tones[degree]);
+        alterations.push('b9', '#9', '#11', 'b13');
+        tones[7] = tones[7] ?? seventh;
+      } else if ((m = take(/^(no|omit)(\d+)/))) {
+        delete tones[parseInt(m[2])];
+      } else {
+        throw new Error(`Unrecognized chord symbol: ${symbol} (at "${rest}")`);
+      }
+    }
+
+    const chordIntervals = Object.keys(tones)
+      .map(degree => tones[Number(degree)])
+      .concat(alterations)
+      .filter((interval, i, all) => all.indexOf(interval) === i)
+      .map(interval => Intervals.parse(interval))
+      .sort((a, b) => Intervals.semitones(a) - Intervals.semitones(b));
+
+    const bassInterval = bass ? this.intervalBetween(root, bass) : null;
+
+    if (!bassInterval || bassInterval.fifths === 0) {
+      return {
+        fundamental: `${root}${octave}`,
+        intervals: chordIntervals.map(interval => Intervals.toString(interval))
+      };
+    }
+
+    // Slash chord: the bass sounds below the root and the chord tones are re-expressed above it
+    const octaveBelow: SpelledInterval = { number: 8, fifths: 0 };
+    const bassBelowRoot = Intervals.subtract(octaveBelow, bassInterval);
+
+    const intervals = ['1'].concat(
+      chordIntervals
+        .filter(interval => interval.fifths !== bassInterval.fifths)
+        .map(interval => Intervals.toString(Intervals.add(interval, bassBelowRoot)))
+    );
+
+    return {
+      fundamental: this.noteBelow(bass!, `${root}${octave}`),
+      intervals
+    };
+  }
+
+  /**
+   * Ascending interval between two note names within an octave (e.g., F -> A = 3)
+   * @param lower - Lower note name without octave
+   * @param upper - Upper note name without octave
+   * @returns Spelled interval
+   */
+  static intervalBetween(lower: string, upper: string): SpelledInterval {
+    const steps = (this.letters.indexOf(upper[0]) - this.letters.indexOf(lower[0]) + 7) % 7;
+    return {
+      number: steps + 1,
+      fifths: PythagoreanTuning.noteNameToFifths(upper) - PythagoreanTuning.noteNameToFifths(lower)
+    };
+  }
+
+  /**
+   * Place a note name in the octave just below (or at) a reference note
+   * @param noteName - Note name without octave
+   * @param reference - Note with octave (e.g., "F4")
+   * @returns Note with octave (e.g., "A3")
+   */
+  static noteBelow(noteName: string, reference: string): string {
+    const referenceSemitones = PythagoreanTuning.noteToSemitonesFromA4(reference);
+    const octave = parseInt(reference.replace(/^[A-G][#b]?/, ''));
+
+    for (const candidate of [octave, octave - 1]) {
+      const note = `${noteName}${candidate}`;
+      const semitones = PythagoreanTuning.noteToSemitonesFromA4(note);
+      if (semitones <= referenceSemitones && semitones > referenceSemitones - 12) {
+        return note;
+      }
+    }
+
+    return `${noteName}${octave - 1}`;
+  }
+}
@@ -0,0 +1,85 @@
+// Parse Diagnostics
+// Structured errors and warnings with source positions, collected in a single parse pass
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface DiagnosticFix {
+  label: string;         // Short description (e.g., 'Replace with "duration=2"')
+  replacement: string;   // Text that replaces the diagnostic's span
+}
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity;
+  line: number;          // 1-based line number
+  column: number;        // 1-based column where the span starts
+  endColumn: number;     // 1-based column just after the span
+  code: string;          // Stable identifier (e.g., "invalid-duration")
+  message: string;
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Problem located within a single line (0-based offsets, end exclusive)
+ */
+export interface LineIssue {
+  code: string;
+  message: string;
+  start: number;
+  end: number;
+  fix?: DiagnosticFix;
+}
+
+/**
+ * Error thrown while parsing a line, carrying the span it refers to
+ */
+export class ParseError extends Error implements LineIssue {
+  constructor(
+    message: string,
+    public code: string,
+    public start = 0,
+    public end = 0,
+    public fix?: DiagnosticFix
+  ) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+export class Diagnostics {
+  /**
+   * Convert a line issue into a diagnostic
+   * @param issue - Issue with offsets within the line
+   * @param severity - Error or warning
+   * @param line - 1-based line number
+   * @returns Diagnostic
+   */
+  static fromIssue(issue: LineIssue, severity: DiagnosticSeverity, line: number): Diagnostic {
+    return {
+      severity,
+      line,
+      column: issue.start + 1,
+      endColumn: Math.max(issue.end, issue.start + 1) + 1,
+      code: issue.code,
+      message: issue.message,
+      fix: issue.fix
+    };
+  }
+
+  /**
+   * Whether any diagnostic is an error
+   * @param diagnostics - Diagnostics to check
+   * @returns True if parsing failed
+   */
+  static hasErrors(diagnostics: Diagnostic[]): boolean {
+    return diagnostics.some(d => d.severity === 'error');
+  }
+
+  /**
+   * Format a diagnostic for display (e.g., "Line 3:5: Invalid duration ...")
+   * @param diagnostic - Diagnostic to format
+   * @returns Human-readable message
+   */
+  static format(diagnostic: Diagnostic): string {
+    return `Line ${diagnostic.line}:${diagnostic.column}: ${diagnostic.message}`;
+  }
+}
@@ -0,0 +1,146 @@
+// Dynamics and Articulation
+// Dynamic markings (pp...ff), hairpins, accents and articulations, turned into MIDI velocities,
+// note lengths and playback gain so that AudioPlayer and MIDIExporter shape notes the same way
+
+export type Articulation = 'staccato' | 'legato' | 'tenuto';
+
+export type Hairpin = 'cresc' | 'dim';
+
+// How the notes of a chord are played
+export interface ChordDynamics {
+  velocity?: number;             // Dynamic level (mf when absent)
+  articulation?: Articulation;
+  accents?: boolean[];           // Accented notes, by index
+}
+
+export class Dynamics {
+  // MIDI velocity of each dynamic marking
+  static levels: { [marking: string]: number } = {
+    ppp: 16,
+    pp: 33,
+    p: 49,
+    mp: 64,
+    mf: 80,
+    f: 96,
+    ff: 112,
+    fff: 127,
+  };
+
+  static defaultVelocity = 80;   // mf
+
+  static accent = 20;            // Velocity added to accented notes
+  static tenuto = 6;             // Velocity added to tenuto notes (a slight stress)
+
+  // Fraction of the written duration that sounds
+  static gates: { [articulation: string]: number } = {
+    staccato: 0.5,
+    legato: 1,
+    tenuto: 1,
+  };
+
+  // Legato notes ring into the next chord by this many quarter notes
+  static legatoOverlap = 1 / 16;
+
+  /**
+   * Parse a dynamic marking ("pp", "mf", "ff") or the start of a hairpin ("cresc", "dim")
+   * @param text - Marking
+   * @returns Velocity of the marking, or the hairpin
+   */
+  static parseMarking(text: string): number | Hairpin {
+    const marking = text.trim().toLowerCase();
+    if (/^cresc(endo)?$/.test(marking)) {
+      return 'cresc';
+    }
+    if (/^(dim(inuendo)?|decresc(endo)?)$/.test(marking)) {
+      return 'dim';
+    }
+    if (!(marking in this.levels)) {
+      throw new Error(`Invalid dynamic: ${text}. Expected one of ${Object.keys(this.levels).join(', ')}, cresc or dim`);
+    }
+    return this.levels[marking];
+  }
+
+  /**
+   * Parse articulations joined with "+" (e.g., "staccato", "tenuto+accent")
+   * @param text - Articulation list
+   * @returns Articulation and whether every note is accented
+   */
+  static parseArticulation(text: string): { articulation?: Articulation; accent: boolean } {
+    let articulation: Articulation | undefined;
+    let accent = false;
+
+    text.split('+').forEach(item => {
+      const name = item.trim().toLowerCase();
+      if (name === 'accent') {
+        accent = true;
+      } else if (name in this.gates && !articulation) {
+        articulation = name as Articulation;
+      } else {
+        throw new Error(
+          name in this.gates
+            ? `Only one of staccato, legato and tenuto can apply: ${text}`
+            : `Invalid articulation: ${item.trim()}. Expected staccato, legato, tenuto or accent`
+        );
+      }
+    });
+
+    return { articulation, accent };
+  }
+
+  /**
+   * Dynamic marking one step louder (crescendo) or softer (diminuendo)
+   * @param velocity - Starting velocity
+   * @param hairpin - Direction
+   * @returns Velocity of the next marking in that direction
+   */
+  static step(velocity: number, hairpin: Hairpin): number {
+    const levels = Object.values(this.levels);
+    const next = hairpin === 'cresc'
+      ? levels.find(level => level > velocity)
+      : [...levels].reverse().find(level => level < velocity);
+    return next ?? velocity;
+  }
+
+  /**
+   * Nearest dynamic marking for a velocity
+   * @param velocity - MIDI velocity
+   * @returns Marking (e.g., "mf")
+   */
+  static marking(velocity: number): string {
+    return Object.keys(this.levels).reduce((best, marking) =>
+      Math.abs(this.levels[marking] - velocity) < Math.abs(this.levels[best] - velocity) ? marking : best
+    );
+  }
+
+  /**
+   * Velocity of a single note
+   * @param velocity - Dynamic level of the chord
+   * @param accent - Whether the note is accented
+   * @param articulation - Articulation of the chord
+   * @returns MIDI velocity (1-127)
+   */
+  static noteVelocity(velocity = this.defaultVelocity, accent = false, articulation?: Articulation): number {
+    const stress = (accent ? this.accent : 0) + (articulation === 'tenuto' ? this.tenuto : 0);
+    return Math.max(1, Math.min(127, Math.round(velocity + stress)));
+  }
+
+  /**
+   * Fraction of the written duration that sounds
+   * @param articulation - Articulation of the chord
+   * @returns Gate between 0 and 1
+   */
+  static gate(articulation?: Articulation): number {
+    return articulation ? this.gates[articulation] : 1;
+  }
+
+  /**
+   * Playback amplitude relative to mezzo-forte
+   * Amplitude follows the square of the velocity, (velocity/80)², i.e. 40·log10(velocity/80) dB relative to mf:
+   * the usual MIDI velocity curve, scaled so that mf keeps its level.
+   * @param velocity - MIDI velocity
+   * @returns Gain multiplier (1 at mf)
+   */
+  static gain(velocity: number): number {
+    return Math.pow(velocity / this.defaultVelocity, 2);
+  }
+}
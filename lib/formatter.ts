@@ -0,0 +1,514 @@
+// Chord Language Formatter
+// Rewrites chord sequence input in canonical form (consistent spacing, intervals from low to high,
+// options in a fixed order, blocks indented) and serialises parsed chords back to text.
+// Formatting keeps comments, blank lines between paragraphs and every line's meaning, so the
+// formatted input parses to the same chords.
+
+import { ChordSymbols } from './chord-symbols';
+import { Parser, type ParsedChord, type ParseResult } from './parser';
+import { RomanNumerals, type KeySignature } from './roman-numerals';
+import { DEFAULT_TIME_SIGNATURE, Timeline, type TempoChange, type TimeSignature } from './timeline';
+
+// Tolerance for positions and durations built from triplets and dotted values
+const EPSILON = 1e-9;
+
+export class Formatter {
+  // Chord options in the order they are written
+  static optionOrder = ['duration', 'octave', 'dynamic', 'articulation', 'arp', 'rate', 'range', 'strum'];
+
+  static indent = '  ';
+
+  /**
+   * Format chord sequence input
+   * Lines inside "let name = {" and "repeat n {" blocks are indented; runs of blank lines shrink to one.
+   * Only spacing and order change within a line (directives that do not parse are kept as written),
+   * so a line with an error still reports it.
+   * @param input - Multi-line chord sequence
+   * @returns Formatted input
+   */
+  static format(input: string): string {
+    const lines = input.split('\n');
+    const names = lines
+      .map(line => line.match(/^\s*let\s+([^=\s]+)/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map(match => match[1]);
+
+    const output: string[] = [];
+    let depth = 0;
+
+    lines.forEach(line => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        if (output.length > 0 && output[output.length - 1] !== '') {
+          output.push('');
+        }
+        return;
+      }
+
+      if (trimmed === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+      output.push(this.indent.repeat(depth) + this.formatLine(trimmed, names));
+      if (trimmed.endsWith('{')) {
+        depth++;
+      }
+    });
+
+    while (output[output.length - 1] === '') {
+      output.pop();
+    }
+    return output.join('\n');
+  }
+
+  /**
+   * Format a single line
+   * @param line - Trimmed line
+   * @param names - Names defined with "let" (kept in place among intervals)
+   * @returns Formatted line (without indentation)
+   */
+  static formatLine(line: string, names: string[] = []): string {
+    if (Parser.isBlankOrComment(line) || line === '}' || /^\|+$/.test(line)) {
+      return line;
+    }
+
+    if (line.startsWith('@')) {
+      return this.formatDirective(line);
+    }
+
+    const marker = line.match(/^\[([^\]]*)\]$/);
+    if (marker) {
+      if (Parser.endingPattern.test(line)) {
+        return `[${marker[1].replace(/\s+/g, '')}]`;
+      }
+      // "[2 ]" is not an ending, so it must not become one
+      const section = `[${marker[1].trim()}]`;
+      return Parser.endingPattern.test(section) ? line : section;
+    }
+
+    const definition = line.match(/^let\s+([^=\s]*)\s*=(.*)$/);
+    if (definition) {
+      const value = definition[2].trim() === '{' ? '{' : this.formatIntervals(Parser.splitParts(definition[2]), names);
+      return `let ${definition[1]} = ${value}`;
+    }
+
+    const repeat = line.match(/^repeat\s+(\d+)\s*\{$/i);
+    if (repeat) {
+      return `repeat ${repeat[1]} {`;
+    }
+
+    const form = line.match(/^form\s*:(.*)$/i);
+    if (form) {
+      return `form: ${Parser.splitWords(form[1]).map(word => word.text).join(' ')}`.trimEnd();
+    }
+
+    const voice = line.match(/^voice\s+([^:]*?)\s*:$/i);
+    if (voice) {
+      return `voice ${voice[1]}:`;
+    }
+
+    const colonIndex = line.indexOf(':');
+    if (colonIndex !== -1) {
+      const fundamental = line.substring(0, colonIndex).trim();
+      const parts = Parser.splitParts(line.substring(colonIndex + 1)).filter(part => part.text);
+      const intervals = this.formatIntervals(parts.filter(part => !this.isOption(part.text)), names);
+      return this.join(`${fundamental}: ${intervals}`, parts.map(part => part.text).filter(text => this.isOption(text)));
+    }
+
+    // Chord symbols, Roman numerals and rests: chords first, then options
+    const [first, ...rest] = Parser.splitParts(line);
+    const parts = rest.map(part => part.text).filter(Boolean);
+    const chords = [first.text, ...parts.filter(text => !this.isOption(text))];
+    return this.join(chords.join(', '), parts.filter(text => this.isOption(text)));
+  }
+
+  /**
+   * Format a directive ("@Tempo 120->80 over 2 bars" becomes "@tempo 120 -> 80 over 2 bars")
+   * @param line - Trimmed line starting with "@"
+   * @returns Formatted directive, or the line unchanged if it does not parse
+   */
+  static formatDirective(line: string): string {
+    try {
+      Parser.parseDirective(line);
+    } catch {
+      return line;
+    }
+
+    const [, name, argument] = line.match(/^@(\w+)\s*(.*)$/)!;
+    const parts = Parser.splitParts(argument).map(part =>
+      part.text
+        .replace(/\s+/g, ' ')
+        .replace(/\s*(->|→)\s*/g, ' -> ')
+        .replace(/\s*([/=])\s*/g, '$1')
+    );
+    return `@${name.toLowerCase()} ${parts.join(', ')}`;
+  }
+
+  /**
+   * Format an interval list, from low to high
+   * Names of interval lists (and anything that is not an interval) keep their order, before the intervals.
+   * @param parts - Intervals and names, accented with a trailing ">"
+   * @param names - Names defined with "let"
+   * @returns Intervals joined with commas
+   */
+  static formatIntervals(parts: Array<{ text: string }>, names: string[] = []): string {
+    const tokens = parts
+      .filter(part => part.text)
+      .map(part => {
+        const accented = part.text.endsWith('>');
+        const text = accented ? part.text.slice(0, -1).trimEnd() : part.text;
+        let size: number | null = null;
+        if (!names.includes(text)) {
+          try {
+            size = Parser.intervalSemitones(text);
+          } catch {
+            size = null;
+          }
+        }
+        return { text: accented ? `${text}>` : text, size };
+      });
+
+    const unsized = tokens.filter(token => token.size === null);
+    const sized = tokens.filter(token => token.size !== null).sort((a, b) => a.size! - b.size!);
+    return [...unsized, ...sized].map(token => token.text).join(',');
+  }
+
+  /**
+   * Whether a comma-separated part is an option ("duration=2", "dynamic=p")
+   * @param text - Trimmed part
+   * @returns True for options
+   */
+  static isOption(text: string): boolean {
+    return this.optionName(text) !== null;
+  }
+
+  /**
+   * Name of the option a part sets
+   * @param text - Trimmed part
+   * @returns Lower case option name, or null if the part is not an option
+   */
+  static optionName(text: string): string | null {
+    const match = text.match(/^([a-z]+)\s*(=|$)/i);
+    const name = match ? match[1].toLowerCase() : '';
+    return this.optionOrder.includes(name) ? name : null;
+  }
+
+  /**
+   * Add options to a line in canonical order and spelling ("name=value")
+   * @param head - Chord part of the line
+   * @param options - Option texts
+   * @returns Line
+   */
+  static join(head: string, options: string[]): string {
+    const sorted = options
+      .map((text, index) => ({ text, index, order: this.optionOrder.indexOf(this.optionName(text)!) }))
+      .sort((a, b) => a.order - b.order || a.index - b.index)
+      .map(({ text }) => {
+        const option = text.match(/^([a-z]+)\s*=\s*(.*)$/i);
+        return option ? `${option[1].toLowerCase()}=${option[2].replace(/\s+/g, '')}` : text;
+      });
+    return [head, ...sorted].join(', ');
+  }
+
+  /**
+   * Whether serialising the parsed chords would lose part of the input: comments, definitions or repeats
+   * @param input - Chord sequence text
+   * @returns True if Formatter.serialize can only write the input out as plain chord lines
+   */
+  static flattens(input: string): boolean {
+    return input.split('\n').some(line => {
+      const trimmed = line.trim();
+      return (trimmed && Parser.isBlankOrComment(trimmed)) || /^(let|repeat)\b/i.test(trimmed);
+    });
+  }
+
+  /**
+   * Serialise parsed chords back to input text
+   * Repeats and blocks come out unrolled; sections that play more than once are written once and
+   * listed in a form line. Chord symbols and Roman numerals are kept where they spell the same chord.
+   * @param chords - Chords in playback order (as returned by Parser.parse)
+   * @param tempoChanges - Tempo changes of the sequence
+   * @returns Canonical input that parses to the same chords
+   */
+  static serialize(chords: ParsedChord[], tempoChanges: TempoChange[] = []): string {
+    const state = { time: DEFAULT_TIME_SIGNATURE, key: null as KeySignature | null, tempo: [...tempoChanges] };
+    const preamble: string[] = [];
+    const sections = new Map<string, string[]>();
+    const form: string[] = [];
+    let last = preamble;
+
+    this.splitRuns(chords).forEach(run => {
+      const lines = this.serializeRun(run.chords, state);
+      if (run.section === undefined) {
+        preamble.push(...lines);
+        return;
+      }
+      last = lines;
+
+      // A section that plays again reuses its first text when it is the same
+      let name = run.section;
+      for (let n = 2; sections.has(name) && sections.get(name)!.join('\n') !== lines.join('\n'); n++) {
+        name = `${run.section}-${n}`;
+      }
+      sections.set(name, lines);
+      form.push(name);
+    });
+
+    // Tempo changes after the last chord
+    last.push(...state.tempo.map(change => this.tempoDirective(change, state.time)));
+
+    const blocks = [preamble.join('\n')];
+    if (form.length > sections.size) {
+      blocks.push(`form: ${form.join(' ')}`);
+    }
+    sections.forEach((lines, name) => blocks.push([`[${name}]`, ...lines].join('\n')));
+    return blocks.filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Split chords into runs that play between two points where all voices are aligned
+   * (the start of each section, including every time a section plays again)
+   * @param chords - Chords in playback order
+   * @returns Runs with their section
+   */
+  static splitRuns(chords: ParsedChord[]): Array<{ section?: string; chords: ParsedChord[] }> {
+    const runs: Array<{ section?: string; chords: ParsedChord[]; ends: Map<string, number> }> = [];
+
+    chords.forEach(chord => {
+      const run = runs[runs.length - 1];
+      const voice = chord.voice ?? '';
+      const end = run?.ends.get(voice);
+      const sameRun = run && run.section === chord.section &&
+        // The main voice only plays before the other voices, and each voice continues where it left off
+        !(voice === '' && [...run.ends.keys()].some(name => name !== '')) &&
+        (end === undefined || Math.abs(end - (chord.start ?? end)) < EPSILON);
+
+      if (sameRun) {
+        run.chords.push(chord);
+      } else {
+        runs.push({ section: chord.section, chords: [chord], ends: new Map() });
+      }
+      runs[runs.length - 1].ends.set(voice, (chord.start ?? 0) + chord.duration);
+    });
+
+    return runs;
+  }
+
+  /**
+   * Serialise the chords of one run
+   * @param chords - Chords of the run
+   * @param state - Time signature and key in effect, and tempo changes still to write (updated in place)
+   * @returns Lines
+   */
+  private static serializeRun(
+    chords: ParsedChord[],
+    state: { time: TimeSignature; key: KeySignature | null; tempo: TempoChange[] }
+  ): string[] {
+    const lines: string[] = [];
+    const times = new Map<string, TimeSignature>();
+    const ends = new Map<string, { end: number; time: TimeSignature }>();
+    let voice: string | undefined;
+
+    chords.forEach(chord => {
+      if (chord.voice !== voice) {
+        lines.push(`voice ${chord.voice}:`);
+        voice = chord.voice;
+      }
+
+      const time = chord.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+      const current = times.get(voice ?? '') ?? state.time;
+      if (Timeline.formatTimeSignature(time) !== Timeline.formatTimeSignature(current)) {
+        lines.push(`@time ${Timeline.formatTimeSignature(time)}`);
+      }
+      times.set(voice ?? '', time);
+
+      const start = chord.start ?? 0;
+      state.tempo
+        .filter(change => Math.abs(change.start - start) < EPSILON)
+        .forEach(change => lines.push(this.tempoDirective(change, time)));
+      state.tempo = state.tempo.filter(change => Math.abs(change.start - start) >= EPSILON);
+
+      const key = chord.tonic ? this.findKey(chord, state.key) : null;
+      if (key && (!state.key || this.keyName(key) !== this.keyName(state.key))) {
+        lines.push(`@key ${this.keyName(key)}`);
+        state.key = key;
+      }
+
+      lines.push(this.chordLine(chord, time, key));
+      ends.set(voice ?? '', { end: start + chord.duration, time });
+    });
+
+    // All voices continue from the end of the longest one, in its time signature
+    const longest = [...ends.values()].reduce((a, b) => (b.end > a.end + EPSILON ? b : a), { end: -1, time: state.time });
+    state.time = longest.time;
+    return lines;
+  }
+
+  /**
+   * Serialise one chord
+   * @param chord - Parsed chord
+   * @param time - Time signature that defines the beat
+   * @param key - Key its Roman numeral is spelled in, if any
+   * @returns Chord line
+   */
+  static chordLine(chord: ParsedChord, time: TimeSignature = DEFAULT_TIME_SIGNATURE, key?: KeySignature | null): string {
+    const duration = `duration=${this.formatDuration(chord.duration, time)}`;
+    if (chord.rest) {
+      return `rest, ${duration}`;
+    }
+
+    const accented = (chord.accents ?? []).filter(Boolean).length;
+    const allAccented = chord.intervals.length > 0 && accented === chord.intervals.length;
+    const octave = chord.symbol && !key ? this.symbolOctave(chord) : null;
+
+    // Chord symbols and numerals can only accent every note
+    if ((key || octave !== null) && (accented === 0 || allAccented)) {
+      const options = [duration, ...(octave !== null && octave !== 4 ? [`octave=${octave}`] : []), ...this.expressionOptions(chord, time, allAccented)];
+      return [chord.symbol!, ...options].join(', ');
+    }
+
+    const intervals = chord.intervals.map((interval, i) => ({ text: chord.accents?.[i] ? `${interval}>` : interval }));
+    return [`${chord.fundamental}: ${this.formatIntervals(intervals)}`, duration, ...this.expressionOptions(chord, time, false)].join(', ');
+  }
+
+  /**
+   * Dynamic, articulation and arpeggio options of a chord
+   * @param chord - Parsed chord
+   * @param time - Time signature that defines the beat (for "rate")
+   * @param accent - Whether to accent every note with "+accent"
+   * @returns Options
+   */
+  private static expressionOptions(chord: ParsedChord, time: TimeSignature, accent: boolean): string[] {
+    const options: string[] = [];
+    const articulation = [chord.articulation, accent ? 'accent' : undefined].filter(Boolean).join('+');
+    const arpeggio = chord.arpeggio ?? {};
+
+    if (chord.dynamic) options.push(`dynamic=${chord.dynamic}`);
+    if (articulation) options.push(`articulation=${articulation}`);
+    if (arpeggio.pattern) options.push(`arp=${arpeggio.pattern}`);
+    if (arpeggio.rate !== undefined) options.push(`rate=${this.formatDuration(arpeggio.rate, time)}`);
+    if (arpeggio.range !== undefined) options.push(`range=${arpeggio.range}`);
+    if (arpeggio.strum !== undefined) options.push(`strum=${arpeggio.strum}ms`);
+    return options;
+  }
+
+  /**
+   * Write a duration in beats when it is a simple number of them, otherwise as a note value
+   * @param quarters - Duration in quarter notes
+   * @param time - Time signature that defines the beat
+   * @returns Duration text ("2", "1.5", "qt", "h.")
+   */
+  static formatDuration(quarters: number, time: TimeSignature = DEFAULT_TIME_SIGNATURE): string {
+    const beats = quarters / Timeline.beatLength(time);
+    if (Number.isInteger(beats * 4)) {
+      return String(beats);
+    }
+
+    for (const symbol of Object.keys(Timeline.noteValues)) {
+      for (const suffix of ['', '.', '..', 't', '.t']) {
+        const text = symbol + suffix;
+        if (Math.abs(Timeline.parseDuration(text, time) - quarters) < EPSILON) {
+          return text;
+        }
+      }
+    }
+    return String(Math.round(beats * 1e6) / 1e6);
+  }
+
+  /**
+   * Write a tempo change as a directive
+   * @param change - Tempo change
+   * @param time - Time signature where it starts (ramps are measured in its bars or beats)
+   * @returns "@tempo ..." line
+   */
+  private static tempoDirective(change: TempoChange, time: TimeSignature): string {
+    if (change.endTempo === undefined || !change.length) {
+      return `@tempo ${change.tempo}`;
+    }
+    const bars = change.length / Timeline.barLength(time);
+    const over = Number.isInteger(bars)
+      ? `${bars} bar${bars === 1 ? '' : 's'}`
+      : `${Math.round((change.length / Timeline.beatLength(time)) * 1e6) / 1e6} beats`;
+    return `@tempo ${change.tempo} -> ${change.endTempo} over ${over}`;
+  }
+
+  /**
+   * Octave that spells a chord symbol's chord
+   * @param chord - Chord with a symbol
+   * @returns Octave for "octave=n", or null if the symbol does not give the chord
+   */
+  private static symbolOctave(chord: ParsedChord): number | null {
+    const octaves = [4, 3, 5, 2, 6, 1, 7, 0, 8];
+    return octaves.find(octave => {
+      try {
+        return this.sameNotes(ChordSymbols.parse(chord.symbol!, octave), chord);
+      } catch {
+        return false;
+      }
+    }) ?? null;
+  }
+
+  /**
+   * Key in which a chord's Roman numeral spells the chord (the current key when it does)
+   * @param chord - Chord with a numeral and a tonic
+   * @param current - Key in effect
+   * @returns Key, or null if no key gives the chord
+   */
+  private static findKey(chord: ParsedChord, current: KeySignature | null): KeySignature | null {
+    const octave = parseInt(chord.fundamental.replace(/^[A-G][#b]*/, ''));
+    const candidates: KeySignature[] = [
+      ...(current && current.tonic === chord.tonic ? [current] : []),
+      ...[octave, octave - 1].flatMap(o => (['major', 'minor'] as const).map(mode => ({ tonic: chord.tonic!, octave: o, mode })))
+    ];
+    return candidates.find(key => {
+      try {
+        return this.sameNotes(RomanNumerals.parse(chord.symbol!, key), chord);
+      } catch {
+        return false;
+      }
+    }) ?? null;
+  }
+
+  /**
+   * Name of a key for "@key" ("D major", "Bb3 minor")
+   * @param key - Key signature
+   * @returns Key name
+   */
+  private static keyName(key: KeySignature): string {
+    return `${key.tonic}${key.octave === 4 ? '' : key.octave} ${key.mode}`;
+  }
+
+  /**
+   * Whether two chords have the same fundamental and intervals
+   * @param a - Chord
+   * @param b - Chord
+   * @returns True if they sound the same notes in the same order
+   */
+  private static sameNotes(a: { fundamental: string; intervals: string[] }, b: { fundamental: string; intervals: string[] }): boolean {
+    return a.fundamental === b.fundamental && a.intervals.join(',') === b.intervals.join(',');
+  }
+
+  /**
+   * Whether two parses give the same music: the same chords (each note with its accent, in any order),
+   * timing, dynamics, arpeggios, sections, voices and tempo changes
+   * Source line numbers are ignored.
+   * @param a - Parse result
+   * @param b - Parse result
+   * @returns True if formatting lost nothing
+   */
+  static sameMusic(a: Pick<ParseResult, 'chords' | 'tempoChanges'>, b: Pick<ParseResult, 'chords' | 'tempoChanges'>): boolean {
+    const describe = (result: Pick<ParseResult, 'chords' | 'tempoChanges'>) => JSON.stringify(
+      {
+        chords: result.chords.map(({ line, intervals, accents, ...chord }) => ({
+          ...chord,
+          notes: intervals.map((interval, i) => `${interval}${accents?.[i] ? '>' : ''}`).sort()
+        })),
+        tempoChanges: result.tempoChanges
+      },
+      // Fields in a fixed order
+      (_, value) => value && typeof value === 'object' && !Array.isArray(value)
+        ? Object.fromEntries(Object.entries(value).sort(([a], [b]) => a.localeCompare(b)))
+        : value
+    );
+    return describe(a) === describe(b);
+  }
+}
@@ -0,0 +1,181 @@
+// Spelled Interval Model
+// Intervals are described by their generic number and position on the chain of fifths,
+// so enharmonic spellings (#4 vs b5, #5 vs b6) keep their distinct ratios
+
+import { Ratio } from './ratio';
+
+export interface SpelledInterval {
+  number: number;   // Generic interval number (1 = unison, 3 = third, 9 = ninth)
+  fifths: number;   // Chain-of-fifths offset (5 = 1, 3 = 4, b3 = -3, #4 = 6, b5 = -6)
+}
+
+export class Intervals {
+  // Chain-of-fifths offsets of the perfect and major simple intervals
+  static naturalFifths: { [key: number]: number } = {
+    1: 0,   // Perfect unison
+    2: 2,   // Major 2nd
+    3: 4,   // Major 3rd
+    4: -1,  // Perfect 4th
+    5: 1,   // Perfect 5th
+    6: 3,   // Major 6th
+    7: 5,   // Major 7th
+  };
+
+  /**
+   * Reduce a generic interval number to its simple form (1-7)
+   * @param number - Generic interval number
+   * @returns Simple interval number
+   */
+  static simpleNumber(number: number): number {
+    return ((number - 1) % 7) + 1;
+  }
+
+  /**
+   * Whether an interval number belongs to the perfect class (unison, 4th, 5th)
+   * @param number - Generic interval number
+   * @returns True for perfect intervals
+   */
+  static isPerfect(number: number): boolean {
+    const simple = this.simpleNumber(number);
+    return simple === 1 || simple === 4 || simple === 5;
+  }
+
+  /**
+   * Parse interval notation into a spelled interval
+   * Supports accidentals ("b3", "#4", "bb7", "##5", "#11") and qualities
+   * ("M3", "m7", "P5", "aug5", "dim7", "AA4", "dd5", "maj7", "min3")
+   * @param interval - Interval notation
+   * @returns Spelled interval
+   */
+  static parse(interval: string): SpelledInterval {
+    const token = interval.trim();
+
+    const accidentalMatch = token.match(/^(#+|b+|x)?(\d+)$/);
+    if (accidentalMatch) {
+      const number = parseInt(accidentalMatch[2]);
+      if (number < 1) {
+        throw new Error(`Invalid interval: ${interval}`);
+      }
+
+      const accidental = accidentalMatch[1] || '';
+      const alteration = accidental === 'x'
+        ? 2
+        : accidental.startsWith('#') ? accidental.length : -accidental.length;
+
+      return {
+        number,
+        fifths: this.naturalFifths[this.simpleNumber(number)] + 7 * alteration
+      };
+    }
+
+    const qualityMatch = token.match(/^(P|M|m|A+|d+|perf|maj|min|aug|dim)(\d+)$/);
+    if (!qualityMatch) {
+      throw new Error(`Invalid interval: ${interval}`);
+    }
+
+    const quality = qualityMatch[1];
+    const number = parseInt(qualityMatch[2]);
+    if (number < 1) {
+      throw new Error(`Invalid interval: ${interval}`);
+    }
+
+    const perfect = this.isPerfect(number);
+    let alteration: number;
+
+    if (quality === 'P' || quality === 'perf') {
+      if (!perfect) throw new Error(`Invalid quality for ${number}th: ${interval}. Use M or m`);
+      alteration = 0;
+    } else if (quality === 'M' || quality === 'maj') {
+      if (perfect) throw new Error(`Invalid quality for ${number}th: ${interval}. Use P`);
+      alteration = 0;
+    } else if (quality === 'm' || quality === 'min') {
+      if (perfect) throw new Error(`Invalid quality for ${number}th: ${interval}. Use P`);
+      alteration = -1;
+    } else if (quality === 'aug' || quality.startsWith('A')) {
+      alteration = quality === 'aug' ? 1 : quality.length;
+    } else {
+      // Diminished lies one step below minor for major-class intervals
+      const steps = quality === 'dim' ? 1 : quality.length;
+      alteration = perfect ? -steps : -steps - 1;
+    }
+
+    return {
+      number,
+      fifths: this.naturalFifths[this.simpleNumber(number)] + 7 * alteration
+    };
+  }
+
+  /**
+   * Octaves to add after stacking the interval's fifths
+   * (each fifth spans 4 diatonic steps, each octave 7)
+   * @param interval - Spelled interval
+   * @returns Octave count
+   */
+  static octaves(interval: SpelledInterval): number {
+    return (interval.number - 1 - 4 * interval.fifths) / 7;
+  }
+
+  /**
+   * Size of the interval in equal-tempered semitones
+   * @param interval - Spelled interval
+   * @returns Semitones
+   */
+  static semitones(interval: SpelledInterval): number {
+    return 7 * interval.fifths + 12 * this.octaves(interval);
+  }
+
+  /**
+   * Ratio of the interval in a regular temperament generated by the given fifth
+   * @param interval - Spelled interval
+   * @param fifth - Ratio of the generating fifth (3/2 for Pythagorean)
+   * @returns Frequency ratio
+   */
+  static ratio(interval: SpelledInterval, fifth: number): number {
+    return Math.pow(fifth, interval.fifths) * Math.pow(2, this.octaves(interval));
+  }
+
+  /**
+   * Exact ratio of the interval in a regular temperament with a rational fifth
+   * @param interval - Spelled interval
+   * @param fifth - Exact generating fifth (3/2 for Pythagorean)
+   * @returns Exact frequency ratio
+   */
+  static exactRatio(interval: SpelledInterval, fifth: Ratio): Ratio {
+    return fifth.pow(interval.fifths).multiply(Ratio.of(2).pow(this.octaves(interval)));
+  }
+
+  /**
+   * Stack two intervals (e.g., 3 + b3 = 5)
+   * @param a - Lower interval
+   * @param b - Interval added on top
+   * @returns Combined interval
+   */
+  static add(a: SpelledInterval, b: SpelledInterval): SpelledInterval {
+    return { number: a.number + b.number - 1, fifths: a.fifths + b.fifths };
+  }
+
+  /**
+   * Interval from b up to a (e.g., 5 - 3 = b3). The result must not be descending.
+   * @param a - Upper interval
+   * @param b - Lower interval
+   * @returns Difference
+   */
+  static subtract(a: SpelledInterval, b: SpelledInterval): SpelledInterval {
+    const number = a.number - b.number + 1;
+    if (number < 1) {
+      throw new Error(`Descending interval: ${this.toString(a)} - ${this.toString(b)}`);
+    }
+    return { number, fifths: a.fifths - b.fifths };
+  }
+
+  /**
+   * Format a spelled interval in accidental notation (e.g., "b5", "#11", "bb7")
+   * @param interval - Spelled interval
+   * @returns Interval notation
+   */
+  static toString(interval: SpelledInterval): string {
+    const alteration = (interval.fifths - this.naturalFifths[this.simpleNumber(interval.number)]) / 7;
+    const accidental = alteration >= 0 ? '#'.repeat(alteration) : 'b'.repeat(-alteration);
+    return accidental + interval.number;
+  }
+}
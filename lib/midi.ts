@@ -1,13 +1,47 @@
 // MIDI Export functionality
-// Generates MIDI files for both Pythagorean and Equal Temperament tunings
+// Generates MIDI files for the active tuning system (via pitch bend) and Equal Temperament
+
+import { Arpeggio, type ArpeggioOptions } from './arpeggio';
+import { Dynamics, type ChordDynamics } from './dynamics';
+import { DEFAULT_TIME_SIGNATURE, Timeline, type TimeSignature } from './timeline';
 
 interface MIDIEvent {
   deltaTime: number;
   data: number[];
 }
 
+// Event at an absolute position, before delta times are computed
+interface TimedMIDIEvent {
+  tick: number;
+  data: number[];
+}
+
+// Chord placed on the timeline (positions and durations in quarter notes)
+interface TimedChord extends ChordDynamics {
+  start?: number;
+  duration: number;
+  timeSignature?: TimeSignature;
+  voice?: string;   // Chords of each voice go to their own track
+  arpeggio?: ArpeggioOptions;
+}
+
 export class MIDIExporter {
   private ppq = 480; // Pulses per quarter note (ticks per beat)
+  private referenceA4 = 440; // Frequency of MIDI note 69
+
+  // Channels for notes: all but channel 10 (index 9), which General MIDI keeps for drums
+  private static channels = Array.from({ length: 16 }, (_, i) => i).filter(channel => channel !== 9);
+
+  /**
+   * Set the reference pitch that MIDI note numbers and pitch bends are relative to
+   * @param frequency - Frequency of A4 in Hz
+   */
+  setReferenceFrequency(frequency: number): void {
+    if (!(frequency > 0)) {
+      throw new Error(`Invalid reference frequency: ${frequency}`);
+    }
+    this.referenceA4 = frequency;
+  }
 
   /**
    * Convert frequency to MIDI note number
@@ -15,8 +49,8 @@ export class MIDIExporter {
    * @returns Object with note and cents deviation
    */
   private frequencyToMIDI(frequency: number): { note: number; cents: number } {
-    // MIDI note = 69 + 12 * log2(freq/440)
-    const midiFloat = 69 + 12 * Math.log2(frequency / 440);
+    // MIDI note = 69 + 12 * log2(freq/A4)
+    const midiFloat = 69 + 12 * Math.log2(frequency / this.referenceA4);
     const midiNote = Math.round(midiFloat);
     const cents = (midiFloat - midiNote) * 100;
 
@@ -159,146 +193,208 @@ export class MIDIExporter {
   }
 
   /**
-   * Generate Pythagorean tuning MIDI file
-   * @param chordSequence - Chord sequence with parsed chords and calculated frequencies
-   * @param baseDuration - Base duration in seconds
-   * @param tempo - Tempo in BPM
-   * @returns MIDI file bytes
+   * Convert events at absolute tick positions into a track with delta times
+   * Events at the same tick keep meta events first, then note offs, pitch bends and note ons.
+   * @param events - Events with absolute ticks
+   * @param endTick - Tick of the end-of-track event
+   * @returns Track events
    */
-  generatePythagoreanMIDI(
-    chordSequence: Array<{
-      pythagoreanNotes: Array<{ frequency: number }>;
-      duration: number;
-    }>,
-    baseDuration = 1,
-    tempo = 120
-  ): Uint8Array {
-    const microsecondsPerBeat = Math.round(60000000 / tempo);
-    const ticksPerSecond = (this.ppq * tempo) / 60;
-
-    const tracks: MIDIEvent[][] = [];
-
-    // Track 0: Tempo track
-    const tempoTrack: MIDIEvent[] = [
-      { deltaTime: 0, data: [0xFF, 0x51, 0x03,
-        (microsecondsPerBeat >> 16) & 0xFF,
-        (microsecondsPerBeat >> 8) & 0xFF,
-        microsecondsPerBeat & 0xFF] },
-      { deltaTime: 0, data: [0xFF, 0x2F, 0x00] } // End of track
-    ];
-    tracks.push(tempoTrack);
-
-    // Track 1: Notes with pitch bend
-    const noteTrack: MIDIEvent[] = [];
-    let currentTicks = 0;
-
-    chordSequence.forEach((chord, chordIndex) => {
-      const durationTicks = Math.round(chord.duration * baseDuration * ticksPerSecond);
-
-      chord.pythagoreanNotes.forEach((noteData, noteIndex) => {
-        const { note, cents } = this.frequencyToMIDI(noteData.frequency);
-        const channel = Math.min(noteIndex, 15); // Use different channels for each note
-
-        // Pitch bend message (only if not centered)
-        if (Math.abs(cents) > 0.5) {
-          noteTrack.push({
-            deltaTime: chordIndex === 0 && noteIndex === 0 ? 0 : 0,
-            data: [0xE0 | channel, this.centsToPitchBend(cents) & 0x7F, (this.centsToPitchBend(cents) >> 7) & 0x7F]
-          });
-        }
-
-        // Note on
-        noteTrack.push({
-          deltaTime: 0,
-          data: [0x90 | channel, note, 80] // Velocity 80
+  private toTrack(events: TimedMIDIEvent[], endTick: number): MIDIEvent[] {
+    const order = (data: number[]) => {
+      const status = data[0] & 0xF0;
+      return data[0] === 0xFF ? 0 : status === 0x80 ? 1 : status === 0xE0 ? 2 : 3;
+    };
+    const sorted = events
+      .map((event, index) => ({ ...event, index }))
+      .sort((a, b) => a.tick - b.tick || order(a.data) - order(b.data) || a.index - b.index);
+
+    const track: MIDIEvent[] = [];
+    let lastTick = 0;
+    sorted.forEach(event => {
+      track.push({ deltaTime: event.tick - lastTick, data: event.data });
+      lastTick = event.tick;
+    });
+
+    // End of track (after any trailing rest)
+    track.push({ deltaTime: Math.max(0, endTick - lastTick), data: [0xFF, 0x2F, 0x00] });
+    return track;
+  }
+
+  /**
+   * Create the conductor track with the tempo map and time signature events
+   * @param chordSequence - Chords with their time signatures
+   * @param timeline - Timeline with the tempo map
+   * @returns Track events
+   */
+  private createConductorTrack(chordSequence: TimedChord[], timeline: Timeline): MIDIEvent[] {
+    const end = chordSequence.reduce((max, chord) => Math.max(max, (chord.start ?? 0) + chord.duration), 0);
+
+    // Set tempo: microseconds per quarter note (ramps arrive as small steps)
+    const events: TimedMIDIEvent[] = timeline.tempoMap(end).map(({ start, tempo }) => {
+      const microsecondsPerBeat = Math.round(60000000 / tempo);
+      return {
+        tick: timeline.ticksAt(start, this.ppq),
+        data: [0xFF, 0x51, 0x03,
+          (microsecondsPerBeat >> 16) & 0xFF,
+          (microsecondsPerBeat >> 8) & 0xFF,
+          microsecondsPerBeat & 0xFF]
+      };
+    });
+
+    // Time signature: numerator, log2(denominator), 24 MIDI clocks per click, 8 32nds per quarter
+    let current = '';
+    chordSequence.forEach(chord => {
+      const time = chord.timeSignature ?? DEFAULT_TIME_SIGNATURE;
+      if (Timeline.formatTimeSignature(time) !== current) {
+        current = Timeline.formatTimeSignature(time);
+        events.push({
+          tick: timeline.ticksAt(chord.start ?? 0, this.ppq),
+          data: [0xFF, 0x58, 0x04, time.numerator, Math.round(Math.log2(time.denominator)), 24, 8]
         });
-      });
+      }
+    });
 
-      // Note off messages
-      chord.pythagoreanNotes.forEach((noteData, noteIndex) => {
-        const { note } = this.frequencyToMIDI(noteData.frequency);
-        const channel = Math.min(noteIndex, 15);
+    return this.toTrack(events, 0);
+  }
 
-        noteTrack.push({
-          deltaTime: noteIndex === 0 ? durationTicks : 0,
-          data: [0x80 | channel, note, 0]
+  /**
+   * Tick where the sequence ends
+   * @param chordSequence - Chords on the timeline
+   * @param timeline - Timeline
+   * @returns End tick
+   */
+  private endTick(chordSequence: TimedChord[], timeline: Timeline): number {
+    return chordSequence.reduce((end, chord) => {
+      return Math.max(end, timeline.ticksAt((chord.start ?? 0) + chord.duration, this.ppq));
+    }, 0);
+  }
+
+  /**
+   * Place chords without a start position back to back
+   * @param chordSequence - Chords, optionally with start positions
+   * @returns Chords with start positions
+   */
+  private withStarts<T extends TimedChord>(chordSequence: T[]): Array<T & { start: number }> {
+    let position = 0;
+    return chordSequence.map(chord => {
+      const start = chord.start ?? position;
+      position = start + chord.duration;
+      return { ...chord, start };
+    });
+  }
+
+  /**
+   * Create one track per voice, named after the voice
+   * Each voice gets its own range of channels so that pitch bends of overlapping voices do not interfere.
+   * Without pitch bend, voices share channels once all 15 are taken.
+   * Velocities follow the dynamics and accents; note onsets and lengths follow the arpeggio, strum
+   * and articulation.
+   * @param chords - Chords with start positions
+   * @param timeline - Timeline with the tempo map
+   * @param notesOf - Notes to write for a chord
+   * @param pitchBend - Whether to retune notes with pitch bend
+   * @returns Track events for each voice, in order of first appearance
+   * @throws Error if pitch bends need more channels than there are
+   */
+  private createVoiceTracks<T extends TimedChord & { start: number }>(
+    chords: T[],
+    timeline: Timeline,
+    notesOf: (chord: T) => Array<{ frequency: number }>,
+    pitchBend: boolean
+  ): MIDIEvent[][] {
+    const voices = [...new Set(chords.map(chord => chord.voice))];
+    const end = this.endTick(chords, timeline);
+    const channels = MIDIExporter.channels;
+    let firstChannel = 0;
+
+    const needed = voices.reduce((sum, voice) =>
+      sum + Math.max(0, ...chords.filter(chord => chord.voice === voice).map(chord => notesOf(chord).length)), 0);
+    if (pitchBend && needed > channels.length) {
+      throw new Error(
+        `Retuning with pitch bend needs a channel for every note of every voice: ${needed}, but MIDI has ${channels.length} ` +
+        '(channel 10 is for drums). Use fewer voices or notes, or export in equal temperament'
+      );
+    }
+
+    return voices.map(voice => {
+      const voiceChords = chords.filter(chord => chord.voice === voice);
+      const name = Array.from(voice ?? 'Main', c => c.charCodeAt(0) & 0x7F).slice(0, 127);
+      const events: TimedMIDIEvent[] = [{ tick: 0, data: [0xFF, 0x03, name.length, ...name] }]; // Track name
+
+      voiceChords.forEach((chord, chordIndex) => {
+        const frequencies = notesOf(chord).map(n => n.frequency);
+        const chordEnd = chord.start + chord.duration;
+
+        // Legato notes overlap the next chord, unless it repeats the same key or bends the same channel
+        const next = voiceChords[chordIndex + 1];
+        const nextNotes = next ? notesOf(next).map(n => this.frequencyToMIDI(n.frequency)) : [];
+        const overlap = chord.articulation === 'legato' ? timeline.ticksAt(Dynamics.legatoOverlap, this.ppq) : 0;
+        const canOverlap = (note: number, cents: number, noteIndex: number) =>
+          !nextNotes.some(n => n.note === note) &&
+          !(pitchBend && nextNotes[noteIndex] && Math.abs(nextNotes[noteIndex].cents - cents) > 0.5);
+
+        // Block chords, strums and arpeggios all come from the same schedule as playback
+        Arpeggio.schedule(frequencies, chord, timeline).forEach(scheduled => {
+          const { note, cents } = this.frequencyToMIDI(frequencies[scheduled.index] * Math.pow(2, scheduled.octave));
+          const channel = channels[(firstChannel + scheduled.index) % channels.length]; // Use different channels for each note
+          const accent = chord.accents?.[scheduled.index];
+          const velocity = Dynamics.noteVelocity(chord.velocity, accent, chord.articulation);
+          const startTick = timeline.ticksAt(scheduled.start, this.ppq);
+          const endTick = Math.max(startTick + 1, timeline.ticksAt(scheduled.end, this.ppq));
+          const ringsOn = scheduled.end >= chordEnd - 1e-9 && canOverlap(note, cents, scheduled.index);
+
+          // Pitch bend message (only if not centered)
+          if (pitchBend && Math.abs(cents) > 0.5) {
+            const bend = this.centsToPitchBend(cents);
+            events.push({ tick: startTick, data: [0xE0 | channel, bend & 0x7F, (bend >> 7) & 0x7F] });
+          }
+
+          events.push({ tick: startTick, data: [0x90 | channel, note, velocity] });
+          events.push({ tick: endTick + (ringsOn ? overlap : 0), data: [0x80 | channel, note, 0] });
         });
       });
 
-      currentTicks += durationTicks;
+      firstChannel += Math.max(0, ...voiceChords.map(chord => notesOf(chord).length));
+      return this.toTrack(events, end);
     });
+  }
 
-    // End of track
-    noteTrack.push({ deltaTime: 0, data: [0xFF, 0x2F, 0x00] });
-    tracks.push(noteTrack);
+  /**
+   * Generate tuned MIDI file (Pythagorean or any other tuning system)
+   * @param chordSequence - Chords with tuned frequencies, start positions and durations in quarter notes
+   * @param timeline - Timeline with the tempo map
+   * @returns MIDI file bytes
+   */
+  generatePythagoreanMIDI(
+    chordSequence: Array<TimedChord & { tunedNotes: Array<{ frequency: number }> }>,
+    timeline = new Timeline()
+  ): Uint8Array {
+    const chords = this.withStarts(chordSequence);
 
-    return this.createMIDIFile(tracks);
+    // Track 0: tempo map; one track per voice with pitch bend (rests have no notes and leave a gap)
+    return this.createMIDIFile([
+      this.createConductorTrack(chords, timeline),
+      ...this.createVoiceTracks(chords, timeline, chord => chord.tunedNotes, true)
+    ]);
   }
 
   /**
    * Generate Equal Temperament MIDI file
-   * @param chordSequence - Chord sequence with parsed chords and calculated frequencies
-   * @param baseDuration - Base duration in seconds
-   * @param tempo - Tempo in BPM
+   * @param chordSequence - Chords with equal temperament frequencies, start positions and durations in quarter notes
+   * @param timeline - Timeline with the tempo map
    * @returns MIDI file bytes
    */
   generateEqualTemperamentMIDI(
-    chordSequence: Array<{
-      equalTemperamentNotes: Array<{ frequency: number }>;
-      duration: number;
-    }>,
-    baseDuration = 1,
-    tempo = 120
+    chordSequence: Array<TimedChord & { equalTemperamentNotes: Array<{ frequency: number }> }>,
+    timeline = new Timeline()
   ): Uint8Array {
-    const microsecondsPerBeat = Math.round(60000000 / tempo);
-    const ticksPerSecond = (this.ppq * tempo) / 60;
-
-    const tracks: MIDIEvent[][] = [];
-
-    // Track 0: Tempo track
-    const tempoTrack: MIDIEvent[] = [
-      { deltaTime: 0, data: [0xFF, 0x51, 0x03,
-        (microsecondsPerBeat >> 16) & 0xFF,
-        (microsecondsPerBeat >> 8) & 0xFF,
-        microsecondsPerBeat & 0xFF] },
-      { deltaTime: 0, data: [0xFF, 0x2F, 0x00] } // End of track
-    ];
-    tracks.push(tempoTrack);
-
-    // Track 1: Notes (no pitch bend)
-    const noteTrack: MIDIEvent[] = [];
-
-    chordSequence.forEach((chord, chordIndex) => {
-      const durationTicks = Math.round(chord.duration * baseDuration * ticksPerSecond);
-
-      chord.equalTemperamentNotes.forEach((noteData, noteIndex) => {
-        const { note } = this.frequencyToMIDI(noteData.frequency);
-        const channel = Math.min(noteIndex, 15);
-
-        // Note on
-        noteTrack.push({
-          deltaTime: chordIndex === 0 && noteIndex === 0 ? 0 : 0,
-          data: [0x90 | channel, note, 80]
-        });
-      });
-
-      // Note off messages
-      chord.equalTemperamentNotes.forEach((noteData, noteIndex) => {
-        const { note } = this.frequencyToMIDI(noteData.frequency);
-        const channel = Math.min(noteIndex, 15);
-
-        noteTrack.push({
-          deltaTime: noteIndex === 0 ? durationTicks : 0,
-          data: [0x80 | channel, note, 0]
-        });
-      });
-    });
-
-    // End of track
-    noteTrack.push({ deltaTime: 0, data: [0xFF, 0x2F, 0x00] });
-    tracks.push(noteTrack);
+    const chords = this.withStarts(chordSequence);
 
-    return this.createMIDIFile(tracks);
+    // Track 0: tempo map; one track per voice (no pitch bend)
+    return this.createMIDIFile([
+      this.createConductorTrack(chords, timeline),
+      ...this.createVoiceTracks(chords, timeline, chord => chord.equalTemperamentNotes, false)
+    ]);
   }
 
   /**
@@ -1,97 +1,1723 @@
 // Parser for chord sequence input
-// Handles parsing of user input like "A4: 1,3,5, duration=2"
+// Handles parsing of user input like "A4: 1,3,5, duration=2" or "Cmaj7, duration=2",
+// plus named definitions ("let maj9 = 1,3,5,7,9"), multi-line macros ("let turnaround = { ... }"),
+// repeats with endings ("repeat 2 { ... [1] ... [2] ... }"), sections ("[verse]"), a form line
+// and parallel voices ("voice melody:").
+// Durations are musical ("duration=q", "duration=2") and measured in quarter notes.
+
+import { Arpeggio, type ArpeggioOptions } from './arpeggio';
+import { ChordSymbols } from './chord-symbols';
+import { Diagnostics, ParseError, type Diagnostic, type LineIssue } from './diagnostics';
+import { Dynamics, type Articulation, type Hairpin } from './dynamics';
+import { Intervals } from './intervals';
+import { RomanNumerals, type KeySignature } from './roman-numerals';
+import { DEFAULT_TIME_SIGNATURE, Timeline, type Meter, type TempoChange, type TimeSignature } from './timeline';
+import { DEFAULT_REFERENCE, PYTHAGOREAN, PythagoreanTuning, type ReferencePitch, type TuningSystem } from './tuning';
 
 export interface ParsedChord {
   fundamental: string;
   intervals: string[];
-  duration: number;
+  duration: number;  // Length in quarter notes
+  symbol?: string;   // Chord symbol the intervals were expanded from
+  tonic?: string;    // Key tonic the fundamental is anchored to (Roman numerals)
+  line?: number;     // 1-based source line
+  section?: string;  // Section the chord was played in ("verse")
+  voice?: string;    // Voice the chord belongs to ("melody"); undefined for the main voice
+  rest?: boolean;    // Silence for the duration (no fundamental or intervals)
+  start?: number;    // Position in quarter notes from the start of the sequence
+  bar?: number;      // 1-based bar of the start
+  beat?: number;     // 1-based beat within the bar (may be fractional)
+  timeSignature?: TimeSignature;
+  dynamic?: string;            // Dynamic marking written on the chord ("p", "cresc")
+  velocity?: number;           // MIDI velocity of the dynamics in effect (before accents)
+  articulation?: Articulation;
+  accents?: boolean[];         // Accented notes, by interval
+  arpeggio?: ArpeggioOptions;  // Arpeggio or strum (chord options over "@arp" / "@strum")
+}
+
+// Dynamic, articulation and arpeggio options of a line
+interface Expression {
+  dynamic?: string;
+  articulation?: Articulation;
+  accent?: boolean;
+  arpeggio?: ArpeggioOptions;
+}
+
+// Crescendo or diminuendo waiting for the dynamic it leads to
+interface OpenHairpin {
+  type: Hairpin;
+  from: number;            // Velocity where it starts
+  start: number;           // Position where it starts
+  chords: ParsedChord[];   // Chords under the hairpin
+}
+
+// Setting declared by a directive line
+export type Directive =
+  | { type: 'key'; key: KeySignature }
+  | { type: 'time'; time: TimeSignature }
+  | { type: 'tempo'; tempo: number; endTempo?: number; over?: { count: number; unit: 'bars' | 'beats' } }
+  | { type: 'arpeggio'; options: ArpeggioOptions };
+
+export interface ParseResult {
+  chords: ParsedChord[];
+  diagnostics: Diagnostic[];
+  tempoChanges: TempoChange[];   // From "@tempo" directives, in playback order
+}
+
+// Comma-separated piece of a line with its position (0-based offsets, end exclusive)
+export interface LinePart {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Line of input with its 1-based line number
+export interface SourceLine {
+  text: string;
+  line: number;
+}
+
+// Named interval list ("let maj9 = 1,3,5,7,9") or block of lines ("let turnaround = { ... }")
+export interface Definition {
+  name: string;
+  line: number;            // Line of the "let"
+  nameSpan: LinePart;
+  intervals?: LinePart[];  // Interval list definitions
+  body?: SourceLine[];     // Block definitions
+}
+
+// Named part of the form ("[verse]" and the lines up to the next section)
+export interface Section {
+  name: string;
+  line: number;      // Line of the "[name]" marker
+  span: LinePart;
+  body: SourceLine[];
+}
+
+// Position, time signature and dynamics of one voice
+interface VoiceState {
+  position: number;
+  meter: Meter;
+  dynamic: number;
+  hairpin?: OpenHairpin;
+}
+
+// State carried from line to line (and into expanded blocks) while parsing
+interface ParseState {
+  key: KeySignature | null;
+  chords: ParsedChord[];
+  diagnostics: Diagnostic[];
+  definitions: Map<string, Definition>;
+  section?: string;
+  meter: Meter;       // Time signature in effect and where its bars start
+  position: number;   // Current position in quarter notes
+  dynamic: number;    // Velocity of the dynamics in effect
+  hairpin?: OpenHairpin;
+  arpeggio: ArpeggioOptions;   // Set by "@arp" and "@strum"
+  tempoChanges: TempoChange[];
+  voice?: string;                    // Voice being parsed (undefined for the main voice)
+  voices: Map<string, VoiceState>;   // Other voices of the current section, keyed by name ("" for the main voice)
+  origin: VoiceState;                // Where voices of the current section start
+  depth: number;                     // Repeats and blocks being parsed
+  reference: ReferencePitch;         // Reference pitch and tuning that chords are checked against
+  system: TuningSystem;
+  expansions: number;                // Repeat passes and block expansions unrolled so far
 }
 
 export class Parser {
+  // Definition and section names start with a letter or underscore
+  static namePattern = /^[A-Za-z_][\w-]*$/;
+
+  // Largest repeat count, and the most chords plus repeat passes and block expansions an input may
+  // unroll into (and the most intervals a chord line may), so that the editor cannot hang the page
+  static maxRepeat = 100;
+  static maxExpansion = 10000;
+
+  // Suggested replacement for each option that shapes how a chord is played
+  static optionExamples: { [option: string]: string } = {
+    dynamic: 'dynamic=mf',
+    articulation: 'articulation=staccato',
+    arp: 'arp=up',
+    rate: 'rate=e',
+    range: 'range=1',
+    strum: 'strum=30ms'
+  };
+
+  // First/second endings inside a repeat ("[1]", "[2.]", "[1,3]")
+  static endingPattern = /^\[(\d+(?:\s*,\s*\d+)*)\.?\]$/;
+
+  /**
+   * Trim a piece of text, keeping track of where it sits in the line
+   * @param text - Raw text
+   * @param offset - Offset of the text within the line
+   * @returns Trimmed part with its span
+   */
+  static span(text: string, offset = 0): LinePart {
+    const leading = text.length - text.trimStart().length;
+    const trimmed = text.trim();
+    return { text: trimmed, start: offset + leading, end: offset + leading + trimmed.length };
+  }
+
+  /**
+   * Split text by commas into trimmed parts with their spans
+   * @param text - Text to split
+   * @param offset - Offset of the text within the line
+   * @returns Parts in order
+   */
+  static splitParts(text: string, offset = 0): LinePart[] {
+    const parts: LinePart[] = [];
+    let start = 0;
+
+    text.split(',').forEach(piece => {
+      parts.push(this.span(piece, offset + start));
+      start += piece.length + 1;
+    });
+
+    return parts;
+  }
+
+  /**
+   * Whether a line is empty or a comment
+   * @param line - Line of input
+   * @returns True if the line carries no chord
+   */
+  static isBlankOrComment(line: string): boolean {
+    const trimmed = line.trim();
+    return !trimmed || trimmed.startsWith('#') || trimmed.startsWith('//');
+  }
+
   /**
    * Parse a single chord line
-   * Format: "fundamental: intervals, duration=multiplier"
+   * Format: "fundamental: intervals, duration=length"
    * Examples:
    *   "A4: 1,3,5, duration=2"
    *   "440: 1,b3,5, duration=1.5"
    *   "C#3: 1,3,5,7,9, duration=1"
+   *   "C4: 1, 5/4, 3/2, 7/4"
+   *   "A3: 0c, 386.3c, 701.96c"
+   *
+   * Lines without a colon are chord symbols:
+   *   "Cmaj7, duration=2"
+   *   "F/A, octave=3"
+   *
+   * Rests are written "rest, duration=2"
+   *
+   * Interval lists may reference definitions: "C4: maj9, 13"
    *
    * @param line - Single line of chord input
+   * @param warnings - Collects non-fatal issues such as duplicate intervals
+   * @param definitions - Named interval lists
+   * @param time - Time signature that defines the beat
+   * @param reference - Reference pitch the MIDI range is checked with
+   * @param system - Tuning system the MIDI range is checked with
    * @returns Parsed chord object
+   * @throws ParseError pointing at the offending span
    */
-  static parseChordLine(line: string): ParsedChord | null {
-    line = line.trim();
-
-    if (!line || line.startsWith('#') || line.startsWith('//')) {
-      // Empty line or comment
+  static parseChordLine(
+    line: string,
+    warnings: LineIssue[] = [],
+    definitions: Map<string, Definition> = new Map(),
+    time: TimeSignature = DEFAULT_TIME_SIGNATURE,
+    reference: ReferencePitch = DEFAULT_REFERENCE,
+    system: TuningSystem = PYTHAGOREAN
+  ): ParsedChord | null {
+    if (this.isBlankOrComment(line)) {
       return null;
     }
 
     // Split by colon to separate fundamental from intervals and duration
     const colonIndex = line.indexOf(':');
     if (colonIndex === -1) {
-      throw new Error(`Invalid format: Missing colon. Expected format: "A4: 1,3,5, duration=2"`);
+      return /^rest\b/i.test(line.trim()) ? this.parseRestLine(line, time) : this.parseChordSymbolLine(line, time);
     }
 
-    const fundamental = line.substring(0, colonIndex).trim();
-    const remainder = line.substring(colonIndex + 1).trim();
+    const fundamental = this.span(line.substring(0, colonIndex));
+    this.validateFundamental(fundamental);
 
     // Split remainder by comma to get intervals and duration
-    const parts = remainder.split(',').map(p => p.trim());
+    const parts = this.splitParts(line.substring(colonIndex + 1), colonIndex + 1);
 
-    const intervals: string[] = [];
-    let duration = 1; // Default duration multiplier
+    let intervals: LinePart[] = [];
+    let accents: boolean[] = [];
+    const expression: Expression = {};
+    let duration = Timeline.beatLength(time); // Default: one beat
 
     for (const part of parts) {
-      if (part.toLowerCase().startsWith('duration')) {
-        // Parse duration
-        const durationMatch = part.match(/duration\s*=\s*([0-9.]+)/i);
-        if (!durationMatch) {
-          throw new Error(`Invalid duration format: ${part}. Expected format: "duration=2"`);
+      if (part.text.toLowerCase().startsWith('duration')) {
+        duration = this.parseDuration(part, time);
+      } else if (this.parseExpression(part, expression, time)) {
+        continue;
+      } else if (part.text) {
+        // This is an interval or the name of an interval list, accented with a trailing ">"
+        const accented = part.text.endsWith('>');
+        const text = accented ? part.text.slice(0, -1).trimEnd() : part.text;
+        const expanded = this.expandInterval({ ...part, text }, definitions);
+        if (intervals.length + expanded.length > this.maxExpansion) {
+          throw this.tooLong(part);
         }
-        duration = parseFloat(durationMatch[1]);
-        if (isNaN(duration) || duration <= 0) {
-          throw new Error(`Invalid duration value: ${durationMatch[1]}. Must be a positive number.`);
+        intervals = intervals.concat(expanded);
+        accents = accents.concat(expanded.map(() => accented));
+      }
+    }
+
+    if (intervals.length === 0) {
+      throw new ParseError(
+        `No intervals specified for fundamental ${fundamental.text}`,
+        'missing-intervals',
+        fundamental.start,
+        line.trimEnd().length,
+        { label: 'Add a major triad', replacement: `${line.substring(fundamental.start).trimEnd()} 1,3,5` }
+      );
+    }
+
+    warnings.push(...this.lintIntervals(fundamental.text, intervals, reference, system));
+
+    return {
+      fundamental: fundamental.text,
+      intervals: intervals.map(part => part.text),
+      duration,
+      ...this.expressionFields(expression, intervals.length, accents)
+    };
+  }
+
+  /**
+   * Parse a rest line
+   * Format: "rest, duration=length"
+   * @param line - Line starting with "rest"
+   * @param time - Time signature that defines the beat
+   * @returns Rest with its duration
+   */
+  static parseRestLine(line: string, time: TimeSignature = DEFAULT_TIME_SIGNATURE): ParsedChord {
+    const [rest, ...options] = this.splitParts(line);
+    let duration = Timeline.beatLength(time);
+
+    if (rest.text.toLowerCase() !== 'rest') {
+      throw new ParseError(
+        `Invalid rest: ${rest.text}. Expected format: "rest, duration=2"`,
+        'invalid-rest',
+        rest.start,
+        rest.end
+      );
+    }
+
+    for (const part of options) {
+      if (part.text.toLowerCase().startsWith('duration')) {
+        duration = this.parseDuration(part, time);
+      } else if (part.text) {
+        throw new ParseError(`Unexpected "${part.text}" after rest. Only duration applies`, 'unexpected-option', part.start, part.end);
+      }
+    }
+
+    return { fundamental: '', intervals: [], duration, rest: true };
+  }
+
+  /**
+   * Parse a chord symbol line
+   * Format: "symbol, duration=length, octave=n, dynamic=p, articulation=staccato"
+   * @param line - Line without a colon
+   * @param time - Time signature that defines the beat
+   * @returns Parsed chord object
+   */
+  static parseChordSymbolLine(line: string, time: TimeSignature = DEFAULT_TIME_SIGNATURE): ParsedChord {
+    const parts = this.splitParts(line);
+    const symbol = parts[0];
+
+    const expression: Expression = {};
+    let duration = Timeline.beatLength(time);
+    let octave = 4; // Default octave of the chord root
+
+    for (const part of parts.slice(1)) {
+      if (part.text.toLowerCase().startsWith('duration')) {
+        duration = this.parseDuration(part, time);
+      } else if (this.parseExpression(part, expression, time)) {
+        continue;
+      } else if (part.text.toLowerCase().startsWith('octave')) {
+        const octaveMatch = part.text.match(/^octave\s*=\s*(-?\d+)$/i);
+        if (!octaveMatch) {
+          throw new ParseError(
+            `Invalid octave format: ${part.text}. Expected format: "octave=3"`,
+            'invalid-octave',
+            part.start,
+            part.end,
+            { label: 'Replace with "octave=4"', replacement: 'octave=4' }
+          );
         }
-      } else if (part) {
-        // This is an interval
-        intervals.push(part);
+        octave = parseInt(octaveMatch[1]);
+      } else if (part.text) {
+        throw new ParseError(
+          `Unexpected "${part.text}" after chord symbol ${symbol.text}. Use "A4: 1,3,5" for interval lists`,
+          'unexpected-option',
+          part.start,
+          part.end
+        );
+      }
+    }
+
+    let chord;
+    try {
+      chord = ChordSymbols.parse(symbol.text, octave);
+    } catch (error) {
+      throw new ParseError((error as Error).message, 'invalid-chord-symbol', symbol.start, symbol.end);
+    }
+
+    return {
+      fundamental: chord.fundamental,
+      intervals: chord.intervals,
+      duration,
+      symbol: symbol.text,
+      ...this.expressionFields(expression, chord.intervals.length)
+    };
+  }
+
+  /**
+   * Parse an option that shapes how a chord is played: "dynamic=p", "dynamic=cresc",
+   * "articulation=staccato+accent", "arp=up", "rate=s", "range=2" or "strum=30ms"
+   * @param part - Option
+   * @param expression - Options of the line, updated in place
+   * @param time - Time signature that defines the beat (for "rate")
+   * @returns True if the part is one of these options
+   */
+  static parseExpression(part: LinePart, expression: Expression, time: TimeSignature = DEFAULT_TIME_SIGNATURE): boolean {
+    const option = part.text.match(/^(dynamic|articulation|arp|rate|range|strum)\b\s*(?:=\s*(.*))?$/i);
+    if (!option) {
+      return false;
+    }
+
+    const name = option[1].toLowerCase();
+    const example = this.optionExamples[name];
+    const value = option[2];
+    try {
+      if (value === undefined) {
+        throw new Error(`Invalid ${name} format: ${part.text}. Expected format: "${example}"`);
+      }
+      if (name === 'dynamic') {
+        const marking = Dynamics.parseMarking(value);
+        expression.dynamic = typeof marking === 'number' ? Dynamics.marking(marking) : marking;
+      } else if (name === 'articulation') {
+        const { articulation, accent } = Dynamics.parseArticulation(value);
+        expression.articulation = articulation;
+        expression.accent = accent;
+      } else {
+        expression.arpeggio = { ...expression.arpeggio, ...this.parseArpeggioOption(name, value, time) };
+      }
+    } catch (error) {
+      throw new ParseError((error as Error).message, `invalid-${name}`, part.start, part.end, {
+        label: `Replace with "${example}"`,
+        replacement: example
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Parse the value of an arpeggio option
+   * @param name - "arp", "rate", "range" or "strum"
+   * @param value - Option value
+   * @param time - Time signature that defines the beat (for "rate")
+   * @returns Arpeggio option
+   */
+  static parseArpeggioOption(name: string, value: string, time: TimeSignature = DEFAULT_TIME_SIGNATURE): ArpeggioOptions {
+    if (name === 'arp') {
+      return { pattern: Arpeggio.parsePattern(value) };
+    }
+    if (name === 'rate') {
+      return { rate: Arpeggio.parseRate(value, time) };
+    }
+    if (name === 'range') {
+      return { range: Arpeggio.parseRange(value) };
+    }
+    return { strum: Arpeggio.parseStrum(value) };
+  }
+
+  /**
+   * Chord fields for the dynamic, articulation and arpeggio options of a line
+   * @param expression - Options of the line
+   * @param noteCount - Number of notes in the chord
+   * @param accents - Notes accented individually
+   * @returns Fields to add to the chord (none when no option applies)
+   */
+  static expressionFields(
+    expression: Expression,
+    noteCount: number,
+    accents: boolean[] = []
+  ): Pick<ParsedChord, 'dynamic' | 'articulation' | 'accents' | 'arpeggio'> {
+    const noteAccents = Array.from({ length: noteCount }, (_, i) => Boolean(expression.accent || accents[i]));
+    return {
+      ...(expression.dynamic && { dynamic: expression.dynamic }),
+      ...(expression.articulation && { articulation: expression.articulation }),
+      ...(noteAccents.some(Boolean) && { accents: noteAccents }),
+      ...(expression.arpeggio && { arpeggio: expression.arpeggio })
+    };
+  }
+
+  /**
+   * Parse a duration option
+   * Values are beats of the time signature ("duration=2") or note values ("duration=q.", "duration=et")
+   * @param part - Option (e.g., "duration=2")
+   * @param time - Time signature that defines the beat
+   * @returns Duration in quarter notes
+   */
+  static parseDuration(part: LinePart, time: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+    const durationMatch = part.text.match(/^duration\s*=\s*(.+)$/i);
+    if (!durationMatch) {
+      throw new ParseError(
+        `Invalid duration format: ${part.text}. Expected format: "duration=2" or "duration=q"`,
+        'invalid-duration',
+        part.start,
+        part.end,
+        { label: 'Replace with "duration=1"', replacement: 'duration=1' }
+      );
+    }
+
+    try {
+      return Timeline.parseDuration(durationMatch[1], time);
+    } catch (error) {
+      throw new ParseError(
+        (error as Error).message,
+        'invalid-duration',
+        part.start,
+        part.end,
+        { label: 'Replace with "duration=1"', replacement: 'duration=1' }
+      );
+    }
+  }
+
+  /**
+   * Check that a fundamental is a note name or a frequency in Hz
+   * @param part - Fundamental text and span
+   * @throws ParseError if the fundamental is invalid
+   */
+  static validateFundamental(part: LinePart): void {
+    if (/^\d+(\.\d+)?\s*(hz)?$/i.test(part.text) && parseFloat(part.text) > 0) {
+      return;
+    }
+
+    try {
+      PythagoreanTuning.noteToSemitonesFromA4(part.text);
+    } catch (error) {
+      const capitalized = part.text.charAt(0).toUpperCase() + part.text.slice(1);
+      const fix = /^[A-G][#b]?-?\d+$/.test(capitalized) && capitalized !== part.text
+        ? { label: `Replace with "${capitalized}"`, replacement: capitalized }
+        : undefined;
+
+      throw new ParseError(
+        `Invalid fundamental: ${part.text || '(empty)'}. Use a note like A4, C#3, Bb5 or a frequency like 440`,
+        'invalid-fundamental',
+        part.start,
+        part.end,
+        fix
+      );
+    }
+  }
+
+  /**
+   * Check that an interval token is a scale degree or a ratio/cents literal
+   * @param part - Interval text and span
+   * @throws ParseError if the interval is invalid
+   */
+  static validateInterval(part: LinePart): void {
+    try {
+      if (PythagoreanTuning.isLiteral(part.text)) {
+        PythagoreanTuning.parseLiteral(part.text);
+      } else {
+        Intervals.parse(part.text);
+      }
+    } catch (error) {
+      if (this.namePattern.test(part.text)) {
+        throw new ParseError(
+          `Undefined name: ${part.text}. Use an interval like b3 or M7, or define it with "let ${part.text} = 1,3,5"`,
+          'undefined-name',
+          part.start,
+          part.end
+        );
       }
+      throw new ParseError((error as Error).message, 'invalid-interval', part.start, part.end);
     }
+  }
+
+  /**
+   * Number of intervals a named interval list expands into, without expanding it
+   * @param definition - Interval list definition
+   * @param definitions - Named interval lists
+   * @param counts - Counts of the lists measured so far (recursive lists count as empty)
+   * @returns Number of intervals
+   */
+  static countIntervals(definition: Definition, definitions: Map<string, Definition>, counts = new Map<string, number>()): number {
+    const known = counts.get(definition.name);
+    if (known !== undefined) {
+      return known;
+    }
+
+    counts.set(definition.name, 0);
+    const count = (definition.intervals ?? []).reduce((sum, part) => {
+      const inner = definitions.get(part.text);
+      return sum + (inner ? this.countIntervals(inner, definitions, counts) : 1);
+    }, 0);
+    counts.set(definition.name, count);
+    return count;
+  }
 
+  /**
+   * Error for input that unrolls into more than maxExpansion chords or intervals
+   * @param span - Repeat header, block name or interval list name
+   * @returns ParseError to throw
+   */
+  static tooLong(span: LinePart): ParseError {
+    return new ParseError(
+      `Sequence unrolls into more than ${this.maxExpansion} chords, repeats or intervals. Use fewer repeats or shorter definitions`,
+      'too-long',
+      span.start,
+      span.end
+    );
+  }
+
+  /**
+   * Replace a reference to a named interval list by its intervals
+   * Expanded intervals keep the span of the reference so diagnostics point at the use site
+   * @param part - Interval or name
+   * @param definitions - Named interval lists
+   * @param stack - Names being expanded (to detect recursion)
+   * @returns Validated intervals
+   */
+  static expandInterval(part: LinePart, definitions: Map<string, Definition>, stack: string[] = []): LinePart[] {
+    const definition = definitions.get(part.text);
+    if (!definition) {
+      this.validateInterval(part);
+      return [part];
+    }
+
+    if (stack.includes(definition.name)) {
+      throw new ParseError(
+        `Recursive definition: ${stack.concat(definition.name).join(' → ')}`,
+        'recursive-definition',
+        part.start,
+        part.end
+      );
+    }
+    if (!definition.intervals) {
+      throw new ParseError(
+        `${definition.name} is a block of chords, not an interval list. Put it on a line of its own`,
+        'not-an-interval-list',
+        part.start,
+        part.end
+      );
+    }
+    if (this.countIntervals(definition, definitions) > this.maxExpansion) {
+      throw this.tooLong(part);
+    }
+
+    try {
+      return definition.intervals
+        .flatMap(inner => this.expandInterval(inner, definitions, stack.concat(definition.name)))
+        .map(inner => ({ text: inner.text, start: part.start, end: part.end }));
+    } catch (error) {
+      const inner = error as ParseError;
+      const message = inner.code === 'recursive-definition' ? inner.message : `In ${definition.name}: ${inner.message}`;
+      throw new ParseError(message, inner.code, part.start, part.end);
+    }
+  }
+
+  /**
+   * Parse a definition line
+   * Formats: "let name = intervals" or "let name = {" (the block ends at a line holding "}")
+   * @param text - Line starting with "let"
+   * @param line - 1-based line number
+   * @returns Definition (blocks start with an empty body)
+   */
+  static parseDefinition(text: string, line: number): Definition {
+    const match = text.match(/^(\s*let\s+)([^=\s]*)\s*=(.*)$/);
+    if (!match) {
+      const span = this.span(text);
+      throw new ParseError(
+        `Invalid definition: ${span.text}. Expected "let maj9 = 1,3,5,7,9" or "let turnaround = {"`,
+        'invalid-definition',
+        span.start,
+        span.end
+      );
+    }
+
+    const nameSpan = { text: match[2], start: match[1].length, end: match[1].length + match[2].length };
+
+    // Names may shadow quality spellings (maj9, m7) but not accidental ones (b3, x5)
+    if (!this.namePattern.test(nameSpan.text) || /^(b+|x)\d+$/.test(nameSpan.text)) {
+      throw new ParseError(
+        `Invalid name: ${nameSpan.text || '(empty)'}. Names start with a letter and must not look like an interval such as b3`,
+        'invalid-name',
+        nameSpan.start,
+        Math.max(nameSpan.end, nameSpan.start + 1)
+      );
+    }
+
+    const valueOffset = text.length - match[3].length;
+    const value = this.span(match[3], valueOffset);
+    if (value.text === '{') {
+      return { name: nameSpan.text, line, nameSpan, body: [] };
+    }
+
+    const intervals = this.splitParts(match[3], valueOffset).filter(part => part.text);
     if (intervals.length === 0) {
-      throw new Error(`No intervals specified for fundamental ${fundamental}`);
+      throw new ParseError(
+        `No intervals specified for ${nameSpan.text}`,
+        'missing-intervals',
+        nameSpan.start,
+        text.trimEnd().length,
+        { label: 'Define a major triad', replacement: `${text.substring(nameSpan.start).trimEnd()} 1,3,5` }
+      );
+    }
+
+    const option = intervals.find(part => part.text.includes('='));
+    if (option) {
+      throw new ParseError(
+        `Definitions hold intervals only. Put "${option.text}" where ${nameSpan.text} is used`,
+        'unexpected-option',
+        option.start,
+        option.end
+      );
     }
 
+    return { name: nameSpan.text, line, nameSpan, intervals };
+  }
+
+  /**
+   * Collect the definitions of the whole input, so names can be used before they are defined
+   * @param lines - Input lines
+   * @param diagnostics - Collects errors in the definitions
+   * @returns Definitions by name and the remaining lines
+   */
+  static collectDefinitions(
+    lines: string[],
+    diagnostics: Diagnostic[]
+  ): { definitions: Map<string, Definition>; source: SourceLine[] } {
+    const definitions = new Map<string, Definition>();
+    const source: SourceLine[] = [];
+    let block: Definition | null = null;
+    let depth = 0; // Nested braces (repeats) inside the block
+
+    lines.forEach((text, i) => {
+      const line = i + 1;
+      const trimmed = text.trim();
+
+      try {
+        if (block) {
+          if (trimmed === '}' && depth === 0) {
+            block = null;
+          } else if (/^let\s/.test(trimmed)) {
+            const span = this.span(text);
+            throw new ParseError('Definitions cannot be nested inside a block', 'nested-definition', span.start, span.end);
+          } else {
+            depth += trimmed.endsWith('{') ? 1 : trimmed === '}' ? -1 : 0;
+            block.body!.push({ text, line });
+          }
+          return;
+        }
+
+        if (!/^let\s/.test(trimmed)) {
+          source.push({ text, line });
+          return;
+        }
+
+        const definition = this.parseDefinition(text, line);
+        const existing = definitions.get(definition.name);
+        if (existing) {
+          throw new ParseError(
+            `${definition.name} is already defined on line ${existing.line}`,
+            'duplicate-definition',
+            definition.nameSpan.start,
+            definition.nameSpan.end
+          );
+        }
+
+        definitions.set(definition.name, definition);
+        if (definition.body) {
+          block = definition;
+          depth = 0;
+        }
+      } catch (error) {
+        this.reportError(diagnostics, error, line, text);
+      }
+    });
+
+    const unterminated = block as Definition | null;
+    if (unterminated) {
+      diagnostics.push(Diagnostics.fromIssue({
+        code: 'unterminated-block',
+        message: `Block ${unterminated.name} is missing its closing "}"`,
+        start: unterminated.nameSpan.start,
+        end: unterminated.nameSpan.end
+      }, 'error', unterminated.line));
+    }
+
+    return { definitions, source };
+  }
+
+  /**
+   * Approximate size of a validated interval in semitones
+   * @param interval - Interval token
+   * @returns Semitones (fractional for literals)
+   */
+  static intervalSemitones(interval: string): number {
+    const literal = PythagoreanTuning.parseLiteral(interval);
+    return literal !== null ? 12 * Math.log2(literal) : Intervals.semitones(Intervals.parse(interval));
+  }
+
+  /**
+   * Find duplicate intervals and notes outside the MIDI range (0-127)
+   * @param fundamental - Validated fundamental
+   * @param intervals - Validated interval parts
+   * @param reference - Reference pitch the notes are tuned to
+   * @param system - Tuning system the notes are tuned in
+   * @returns Warnings
+   */
+  static lintIntervals(
+    fundamental: string,
+    intervals: LinePart[],
+    reference: ReferencePitch = DEFAULT_REFERENCE,
+    system: TuningSystem = PYTHAGOREAN
+  ): LineIssue[] {
+    const warnings: LineIssue[] = [];
+    const seen: { [key: string]: string } = {};
+    const midiNotes = this.midiNotes(fundamental, intervals.map(part => part.text), reference, system);
+
+    intervals.forEach((part, i) => {
+      const literal = PythagoreanTuning.parseLiteral(part.text);
+      const spelled = literal === null ? Intervals.parse(part.text) : null;
+      const identity = spelled ? `${spelled.number}:${spelled.fifths}` : `ratio:${literal}`;
+
+      if (seen[identity] !== undefined) {
+        warnings.push({
+          code: 'duplicate-interval',
+          message: `Duplicate interval: ${part.text} is the same as ${seen[identity]}`,
+          start: part.start,
+          end: part.end
+        });
+      } else {
+        seen[identity] = part.text;
+      }
+
+      const midiNote = midiNotes[i];
+      if (midiNote < 0 || midiNote > 127) {
+        warnings.push({
+          code: 'out-of-midi-range',
+          message: `Interval ${part.text} above ${fundamental} is outside the MIDI note range (0-127) and cannot be exported`,
+          start: part.start,
+          end: part.end
+        });
+      }
+    });
+
+    return warnings;
+  }
+
+  /**
+   * Warn when a chord symbol or Roman numeral has notes outside the MIDI range (0-127)
+   * (interval lists are checked interval by interval in lintIntervals)
+   * @param chord - Chord resolved from a symbol or numeral
+   * @param line - Line of input
+   * @param reference - Reference pitch the notes are tuned to
+   * @param system - Tuning system the notes are tuned in
+   * @returns Warning, or null if every note can be exported
+   */
+  static lintSymbolRange(
+    chord: ParsedChord,
+    line: string,
+    reference: ReferencePitch = DEFAULT_REFERENCE,
+    system: TuningSystem = PYTHAGOREAN
+  ): LineIssue | null {
+    const symbol = chord.symbol ?? '';
+    const outside = this.midiNotes(chord.fundamental, chord.intervals, reference, system).filter(note => note < 0 || note > 127);
+    if (outside.length === 0) {
+      return null;
+    }
+
+    const start = Math.max(0, line.indexOf(symbol));
     return {
-      fundamental,
-      intervals,
-      duration
+      code: 'out-of-midi-range',
+      message: `${symbol} has ${outside.length === 1 ? 'a note' : `${outside.length} notes`} outside the MIDI note range (0-127) that cannot be exported`,
+      start,
+      end: start + symbol.length
     };
   }
 
   /**
-   * Parse entire chord sequence input
-   * @param input - Multi-line chord sequence
-   * @returns Array of parsed chord objects
+   * MIDI notes of a tuned chord, numbered from the A4 the reference implies as in the MIDI export
+   * @param fundamental - Validated fundamental
+   * @param intervals - Validated intervals
+   * @param reference - Reference pitch the notes are tuned to
+   * @param system - Tuning system the notes are tuned in
+   * @returns MIDI note of each interval (none if the tuning cannot place the chord)
    */
-  static parseChordSequence(input: string): ParsedChord[] {
-    const lines = input.split('\n');
-    const chords: ParsedChord[] = [];
+  static midiNotes(fundamental: string, intervals: string[], reference: ReferencePitch, system: TuningSystem): number[] {
+    try {
+      const a4 = PythagoreanTuning.referenceToA4(reference);
+      return PythagoreanTuning.calculateChord(fundamental, intervals, system, reference)
+        .notes.map(note => Math.round(69 + 12 * Math.log2(note.frequency / a4)));
+    } catch {
+      // Notes the tuning cannot place are reported when the chord is tuned
+      return [];
+    }
+  }
+
+  /**
+   * Parse a line of Roman numerals in the declared key
+   * Format: "numeral, numeral, ..., duration=length"
+   * Every numeral on the line becomes a chord with the same duration.
+   * @param line - Line of numerals (e.g., "ii7, V7, Imaj7, duration=2")
+   * @param key - Key declared with @key
+   * @param time - Time signature that defines the beat
+   * @returns Parsed chord objects
+   */
+  static parseRomanNumeralLine(line: string, key: KeySignature, time: TimeSignature = DEFAULT_TIME_SIGNATURE): ParsedChord[] {
+    const parts = this.splitParts(line);
+    const numerals: LinePart[] = [];
+    const expression: Expression = {};
+    let duration = Timeline.beatLength(time);
 
+    for (const part of parts) {
+      if (part.text.toLowerCase().startsWith('duration')) {
+        duration = this.parseDuration(part, time);
+      } else if (this.parseExpression(part, expression, time)) {
+        continue;
+      } else if (part.text) {
+        numerals.push(part);
+      }
+    }
+
+    return numerals.map((numeral, index) => {
+      let chord;
+      try {
+        chord = RomanNumerals.parse(numeral.text, key);
+      } catch (error) {
+        throw new ParseError((error as Error).message, 'invalid-roman-numeral', numeral.start, numeral.end);
+      }
+
+      return {
+        fundamental: chord.fundamental,
+        intervals: chord.intervals,
+        duration,
+        symbol: numeral.text,
+        tonic: key.tonic,
+        // The dynamic marks the first chord of the line; the articulation applies to all
+        ...this.expressionFields(index === 0 ? expression : { ...expression, dynamic: undefined }, chord.intervals.length)
+      };
+    });
+  }
+
+  /**
+   * Parse a directive line (e.g., "@key D major", "@time 3/4", "@tempo 90", "@tempo 120 -> 80 over 4 bars",
+   * "@arp up, rate=s", "@strum 30ms")
+   * @param line - Line starting with "@"
+   * @param time - Time signature in effect (for arpeggio rates in beats)
+   * @returns Setting declared by the directive
+   */
+  static parseDirective(line: string, time: TimeSignature = DEFAULT_TIME_SIGNATURE): Directive {
+    const directive = this.span(line);
+    const directiveMatch = directive.text.match(/^@(\w+)\s*(.*)$/);
+    const name = directiveMatch ? directiveMatch[1].toLowerCase() : '';
+
+    if (!directiveMatch || !['key', 'time', 'tempo', 'arp', 'strum'].includes(name)) {
+      throw new ParseError(
+        `Unknown directive: ${directive.text}. Expected "@key D major", "@time 3/4", "@tempo 90", "@arp up" or "@strum 30ms"`,
+        'unknown-directive',
+        directive.start,
+        directive.end
+      );
+    }
+
+    const argument = this.span(directiveMatch[2], directive.end - directiveMatch[2].length);
+    const end = Math.max(argument.end, argument.start + 1);
+
+    if (name === 'tempo') {
+      return this.parseTempo(argument, end);
+    }
+
+    if (name === 'arp' || name === 'strum') {
+      return this.parseArpeggioDirective(name, argument, time);
+    }
+
+    if (name === 'time') {
+      try {
+        return { type: 'time', time: Timeline.parseTimeSignature(argument.text) };
+      } catch (error) {
+        throw new ParseError((error as Error).message, 'invalid-time-signature', argument.start, end, {
+          label: 'Replace with "4/4"',
+          replacement: '4/4'
+        });
+      }
+    }
+
+    try {
+      return { type: 'key', key: RomanNumerals.parseKey(argument.text) };
+    } catch (error) {
+      throw new ParseError(
+        (error as Error).message,
+        'invalid-key',
+        argument.start,
+        end,
+        { label: 'Replace with "C major"', replacement: 'C major' }
+      );
+    }
+  }
+
+  /**
+   * Parse the argument of an arpeggio directive ("@arp up, rate=s, range=2", "@arp off", "@strum 30ms")
+   * @param name - "arp" or "strum"
+   * @param argument - Directive argument with its span
+   * @param time - Time signature that defines the beat (for "rate")
+   * @returns Arpeggio directive
+   */
+  static parseArpeggioDirective(name: string, argument: LinePart, time: TimeSignature): Directive {
+    const options: ArpeggioOptions = {};
+
+    this.splitParts(argument.text, argument.start).forEach((part, i) => {
+      // "@arp up" is short for "arp=up", and "@strum 30ms" for "strum=30ms"
+      const option = i === 0 ? [part.text, name, part.text] : part.text.match(/^(rate|range)\s*=\s*(.*)$/i);
+      try {
+        if (!option) {
+          throw new Error(`Unexpected "${part.text}" in @${name}. Expected "@arp up, rate=e, range=2" or "@strum 30ms"`);
+        }
+        Object.assign(options, this.parseArpeggioOption(option[1].toLowerCase(), option[2], time));
+      } catch (error) {
+        const code = !option ? 'unexpected-option' : `invalid-${option[1].toLowerCase()}`;
+        const value = this.optionExamples[name].split('=')[1];
+        const fix = i === 0 ? { label: `Replace with "${value}"`, replacement: value } : undefined;
+        throw new ParseError((error as Error).message, code, part.start, part.end, fix);
+      }
+    });
+
+    return { type: 'arpeggio', options };
+  }
+
+  /**
+   * Parse the argument of a tempo directive ("90", "120 -> 80 over 4 bars", "90 -> 120 over 8 beats")
+   * @param argument - Directive argument with its span
+   * @param end - End of the span to report errors on
+   * @returns Tempo directive
+   */
+  static parseTempo(argument: LinePart, end: number): Directive {
+    const match = argument.text.match(
+      /^(\d+(?:\.\d+)?)(?:\s*(?:->|→)\s*(\d+(?:\.\d+)?)\s+over\s+(\d+(?:\.\d+)?)\s*(bars?|beats?))?$/i
+    );
+    const values = match ? [match[1], match[2], match[3]].filter(v => v !== undefined).map(parseFloat) : [];
+
+    if (!match || values.some(value => !(value > 0))) {
+      throw new ParseError(
+        `Invalid tempo: ${argument.text}. Expected quarter notes per minute ("90") or a ramp ("120 -> 80 over 4 bars")`,
+        'invalid-tempo',
+        argument.start,
+        end,
+        { label: 'Replace with "120"', replacement: '120' }
+      );
+    }
+
+    if (match[2] === undefined) {
+      return { type: 'tempo', tempo: values[0] };
+    }
+    return {
+      type: 'tempo',
+      tempo: values[0],
+      endTempo: values[1],
+      over: { count: values[2], unit: /^bar/i.test(match[4]) ? 'bars' : 'beats' }
+    };
+  }
+
+  /**
+   * Start a new time signature at the current position
+   * A change in the middle of a bar closes that bar early (and is reported as a warning).
+   * @param time - New time signature
+   * @param state - Parse state
+   * @param span - Directive span (for the warning)
+   * @returns Warning when the change falls inside a bar
+   */
+  static changeTimeSignature(time: TimeSignature, state: ParseState, span: LinePart): LineIssue | null {
+    const { bar } = Timeline.barBeat(state.position, state.meter);
+    const onBarLine = Timeline.isBarStart(state.position, state.meter);
+
+    state.meter = { start: state.position, bar: onBarLine ? bar - 1 : bar, time };
+
+    return onBarLine ? null : {
+      code: 'time-signature-mid-bar',
+      message: `Time signature changes to ${Timeline.formatTimeSignature(time)} in the middle of bar ${bar}`,
+      start: span.start,
+      end: span.end
+    };
+  }
+
+  /**
+   * Add a diagnostic unless an identical one is already present
+   * (lines inside a block are parsed again each time the block is used)
+   * @param diagnostics - Diagnostics collected so far
+   * @param diagnostic - Diagnostic to add
+   */
+  static addDiagnostic(diagnostics: Diagnostic[], diagnostic: Diagnostic): void {
+    const duplicate = diagnostics.some(d =>
+      d.line === diagnostic.line && d.column === diagnostic.column && d.code === diagnostic.code && d.message === diagnostic.message
+    );
+    if (!duplicate) {
+      diagnostics.push(diagnostic);
+    }
+  }
+
+  /**
+   * Record an error thrown while parsing a line
+   * @param diagnostics - Diagnostics collected so far
+   * @param error - ParseError (with a span) or any other error (spanning the line)
+   * @param line - 1-based line number
+   * @param text - Text of the line
+   */
+  static reportError(diagnostics: Diagnostic[], error: unknown, line: number, text: string): void {
+    const issue: LineIssue = error instanceof ParseError
+      ? error
+      : { code: 'invalid-line', message: (error as Error).message, start: 0, end: text.length };
+    this.addDiagnostic(diagnostics, Diagnostics.fromIssue(issue, 'error', line));
+  }
+
+  /**
+   * Check every interval list definition, including ones that are never used
+   * @param definitions - Definitions by name
+   * @param diagnostics - Collects errors in the definitions
+   */
+  static validateDefinitions(definitions: Map<string, Definition>, diagnostics: Diagnostic[]): void {
+    definitions.forEach(definition => {
+      try {
+        if (definition.intervals && this.countIntervals(definition, definitions) > this.maxExpansion) {
+          throw this.tooLong(definition.nameSpan);
+        }
+        definition.intervals?.forEach(part => this.expandInterval(part, definitions, [definition.name]));
+      } catch (error) {
+        this.reportError(diagnostics, error, definition.line, '');
+      }
+    });
+  }
+
+  /**
+   * Split text into whitespace-separated words with their spans
+   * @param text - Text to split
+   * @param offset - Offset of the text within the line
+   * @returns Words in order
+   */
+  static splitWords(text: string, offset = 0): LinePart[] {
+    const words: LinePart[] = [];
+    const pattern = /\S+/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = pattern.exec(text))) {
+      words.push({ text: match[0], start: offset + match.index, end: offset + match.index + match[0].length });
+    }
+
+    return words;
+  }
+
+  /**
+   * Find the line that closes a block opened by a line ending in "{"
+   * @param lines - Lines to search
+   * @param index - Index of the opening line
+   * @returns Index of the matching "}", or -1 if the block is not closed
+   */
+  static findBlockEnd(lines: SourceLine[], index: number): number {
+    let depth = 0;
+
+    for (let i = index + 1; i < lines.length; i++) {
+      const trimmed = lines[i].text.trim();
+      if (trimmed.endsWith('{')) {
+        depth++;
+      } else if (trimmed === '}') {
+        if (depth === 0) {
+          return i;
+        }
+        depth--;
+      }
+    }
+
+    return -1;
+  }
+
+  /**
+   * Split the input into lines before the first section and named sections, and
+   * resolve the playback order from the form line ("form: verse verse chorus verse")
+   * Without a form, sections play in the order they are written.
+   * @param source - Lines left after collecting definitions
+   * @param diagnostics - Collects errors in the sections and form
+   * @returns Lines before the first section and the sections in playback order
+   */
+  static collectSections(
+    source: SourceLine[],
+    diagnostics: Diagnostic[]
+  ): { preamble: SourceLine[]; sections: Map<string, Section>; order: Section[] } {
+    const preamble: SourceLine[] = [];
+    const sections = new Map<string, Section>();
+    let current: Section | null = null;
+    let form: { line: number; names: LinePart[] } | null = null;
+    let depth = 0; // Sections and the form are only recognised outside blocks
+
+    source.forEach(({ text, line }) => {
+      const trimmed = text.trim();
+
+      try {
+        if (depth === 0) {
+          const marker = trimmed.match(/^\[([^\]]*)\]$/);
+          if (marker && !this.endingPattern.test(trimmed)) {
+            const span = this.span(text);
+            const name = marker[1].trim();
+
+            if (!this.namePattern.test(name)) {
+              throw new ParseError(
+                `Invalid section name: ${name || '(empty)'}. Use a single word like [verse]`,
+                'invalid-section-name',
+                span.start,
+                span.end
+              );
+            }
+            const existing = sections.get(name);
+            if (existing) {
+              throw new ParseError(
+                `Section ${name} is already declared on line ${existing.line}`,
+                'duplicate-section',
+                span.start,
+                span.end
+              );
+            }
+
+            current = { name, line, span, body: [] };
+            sections.set(name, current);
+            return;
+          }
+
+          const formMatch = text.match(/^(\s*form\s*:)(.*)$/i);
+          if (formMatch) {
+            if (form) {
+              const span = this.span(text);
+              throw new ParseError(`The form is already declared on line ${form.line}`, 'duplicate-form', span.start, span.end);
+            }
+            form = { line, names: this.splitWords(formMatch[2], formMatch[1].length) };
+            return;
+          }
+        }
+
+        depth = Math.max(0, depth + (trimmed.endsWith('{') ? 1 : trimmed === '}' ? -1 : 0));
+        (current ? current.body : preamble).push({ text, line });
+      } catch (error) {
+        this.reportError(diagnostics, error, line, text);
+      }
+    });
+
+    const declaredForm = form as { line: number; names: LinePart[] } | null;
+    if (!declaredForm) {
+      return { preamble, sections, order: Array.from(sections.values()) };
+    }
+
+    const order: Section[] = [];
+    declaredForm.names.forEach(part => {
+      const section = sections.get(part.text);
+      if (section) {
+        order.push(section);
+      } else {
+        this.addDiagnostic(diagnostics, Diagnostics.fromIssue({
+          code: 'undefined-section',
+          message: `Undefined section: ${part.text}. Declare it with a line "[${part.text}]"`,
+          start: part.start,
+          end: part.end
+        }, 'error', declaredForm.line));
+      }
+    });
+
+    if (declaredForm.names.length === 0) {
+      diagnostics.push(Diagnostics.fromIssue({
+        code: 'empty-form',
+        message: 'The form lists no sections. Expected "form: verse chorus verse"',
+        start: 0,
+        end: 4
+      }, 'error', declaredForm.line));
+    }
+
+    sections.forEach(section => {
+      if (!order.includes(section)) {
+        diagnostics.push(Diagnostics.fromIssue({
+          code: 'unused-section',
+          message: `Section ${section.name} is not part of the form and will not play`,
+          start: section.span.start,
+          end: section.span.end
+        }, 'warning', section.line));
+      }
+    });
+
+    return { preamble, sections, order };
+  }
+
+  /**
+   * Lines of a repeat body that play on a given pass
+   * Lines after an ending marker ("[1]", "[2]", "[1,3]") only play on the listed passes;
+   * lines before the first marker play on every pass.
+   * @param body - Lines between "repeat n {" and "}"
+   * @param pass - 1-based pass number
+   * @param count - Number of passes
+   * @param diagnostics - Collects warnings about endings that never play
+   * @returns Lines to parse on this pass
+   */
+  static selectEnding(body: SourceLine[], pass: number, count: number, diagnostics: Diagnostic[]): SourceLine[] {
+    const selected: SourceLine[] = [];
+    let passes: number[] | null = null;
+    let depth = 0;
+
+    body.forEach(source => {
+      const trimmed = source.text.trim();
+      const ending = depth === 0 ? trimmed.match(this.endingPattern) : null;
+
+      if (ending) {
+        passes = ending[1].split(',').map(n => parseInt(n));
+        const unreachable = passes.find(n => n < 1 || n > count);
+        if (unreachable !== undefined) {
+          const span = this.span(source.text);
+          this.addDiagnostic(diagnostics, Diagnostics.fromIssue({
+            code: 'unreachable-ending',
+            message: `Ending ${unreachable} never plays in a repeat of ${count}`,
+            start: span.start,
+            end: span.end
+          }, 'warning', source.line));
+        }
+        return;
+      }
+
+      depth = Math.max(0, depth + (trimmed.endsWith('{') ? 1 : trimmed === '}' ? -1 : 0));
+      if (!passes || (passes as number[]).includes(pass)) {
+        selected.push(source);
+      }
+    });
+
+    return selected;
+  }
+
+  /**
+   * Count a repeat pass or block expansion against maxExpansion
+   * @param state - Parse state
+   * @param span - Repeat header or block name (for errors)
+   * @throws ParseError if the input unrolls into too much
+   */
+  static countExpansion(state: ParseState, span: LinePart): void {
+    state.expansions++;
+    if (state.expansions + state.chords.length > this.maxExpansion) {
+      throw this.tooLong(span);
+    }
+  }
+
+  /**
+   * Parse a repeat block ("repeat 4 {" ... "}") once per pass
+   * @param lines - Lines being parsed
+   * @param index - Index of the "repeat" line
+   * @param state - Parse state
+   * @param stack - Blocks being expanded
+   * @param invocationLine - Line the chords are attributed to (inside expanded blocks)
+   * @returns Index of the last line consumed
+   */
+  static parseRepeat(
+    lines: SourceLine[],
+    index: number,
+    state: ParseState,
+    stack: string[],
+    invocationLine?: number
+  ): number {
+    const { text, line } = lines[index];
+    const header = this.span(text);
+    const end = this.findBlockEnd(lines, index);
+
+    try {
+      if (end === -1) {
+        throw new ParseError('Repeat is missing its closing "}"', 'unterminated-block', header.start, header.end);
+      }
+
+      const match = header.text.match(/^repeat\s+(\d+)\s*\{$/i);
+      if (!match || parseInt(match[1]) < 1) {
+        throw new ParseError(
+          `Invalid repeat: ${header.text}. Expected format: "repeat 4 {"`,
+          'invalid-repeat',
+          header.start,
+          header.end,
+          { label: 'Replace with "repeat 2 {"', replacement: 'repeat 2 {' }
+        );
+      }
+
+      const count = parseInt(match[1]);
+      if (count > this.maxRepeat) {
+        throw new ParseError(
+          `Repeat count ${count} is too large. Repeat at most ${this.maxRepeat} times`,
+          'invalid-repeat',
+          header.start,
+          header.end,
+          { label: `Replace with "repeat ${this.maxRepeat} {"`, replacement: `repeat ${this.maxRepeat} {` }
+        );
+      }
+
+      const body = lines.slice(index + 1, end);
+      state.depth++;
+      try {
+        for (let pass = 1; pass <= count; pass++) {
+          this.countExpansion(state, header);
+          this.parseLines(this.selectEnding(body, pass, count, state.diagnostics), state, stack, invocationLine);
+        }
+      } finally {
+        state.depth--;
+      }
+    } catch (error) {
+      this.reportError(state.diagnostics, error, line, text);
+    }
+
+    // An unterminated repeat leaves the following lines to be parsed once
+    return end === -1 ? index : end;
+  }
+
+  /**
+   * Parse lines of a sequence, a section or an expanded block
+   * @param lines - Lines with their line numbers
+   * @param state - Key, chords, diagnostics and definitions
+   * @param stack - Blocks being expanded (to detect recursion)
+   * @param invocationLine - Line that used the block; its chords are attributed to it
+   */
+  static parseLines(lines: SourceLine[], state: ParseState, stack: string[] = [], invocationLine?: number): void {
     for (let i = 0; i < lines.length; i++) {
+      const { text, line } = lines[i];
+      const warnings: LineIssue[] = [];
+      const trimmed = text.trim();
+      const name = this.namePattern.test(trimmed) ? trimmed : null;
+
+      if (/^repeat\b/i.test(trimmed)) {
+        i = this.parseRepeat(lines, i, state, stack, invocationLine);
+        continue;
+      }
+
       try {
-        const chord = this.parseChordLine(lines[i]);
-        if (chord) {
-          chords.push(chord);
+        let lineChords: ParsedChord[] = [];
+        const definition = name ? state.definitions.get(name) : undefined;
+        const span = this.span(text);
+
+        if (definition) {
+          this.expandBlock(definition, text, state, stack, invocationLine ?? line);
+        } else if (trimmed === '}') {
+          throw new ParseError('Unexpected "}" without a matching "{"', 'unexpected-brace', span.start, span.end);
+        } else if (this.endingPattern.test(trimmed)) {
+          throw new ParseError(`Endings like ${trimmed} belong inside a repeat block`, 'unexpected-ending', span.start, span.end);
+        } else if (/^\[.*\]$/.test(trimmed)) {
+          throw new ParseError('Sections cannot be declared inside a block', 'nested-section', span.start, span.end);
+        } else if (/^form\s*:/i.test(trimmed)) {
+          throw new ParseError('The form cannot be declared inside a block', 'nested-form', span.start, span.end);
+        } else if (/^voice\b/i.test(trimmed)) {
+          const voice = trimmed.match(/^voice\s+([^:]*?)\s*:$/i);
+          this.switchVoice(voice ? voice[1] : '', state, span);
+        } else if (trimmed.startsWith('@')) {
+          const directive = this.parseDirective(text, state.meter.time);
+          if (directive.type === 'key') {
+            state.key = directive.key;
+          } else if (directive.type === 'arpeggio') {
+            state.arpeggio = { ...state.arpeggio, ...directive.options };
+          } else if (directive.type === 'tempo') {
+            // Ramp lengths are measured in the time signature in effect where the ramp starts
+            const { tempo, endTempo, over } = directive;
+            const unit = over?.unit === 'bars' ? Timeline.barLength(state.meter.time) : Timeline.beatLength(state.meter.time);
+            state.tempoChanges.push({ start: state.position, tempo, endTempo, length: over ? over.count * unit : undefined });
+          } else {
+            const warning = this.changeTimeSignature(directive.time, state, span);
+            if (warning) warnings.push(warning);
+          }
+        } else if (/^\|+$/.test(trimmed)) {
+          // Bar lines check that the durations before them fill whole bars
+          if (!Timeline.isBarStart(state.position, state.meter)) {
+            const { bar, beat } = Timeline.barBeat(state.position, state.meter);
+            warnings.push({
+              code: 'bar-mismatch',
+              message: `Bar line falls on beat ${beat} of bar ${bar}; the durations before it do not fill the bar`,
+              start: span.start,
+              end: span.end
+            });
+          }
+        } else if (RomanNumerals.isRomanNumeral(trimmed)) {
+          if (!state.key) {
+            throw new ParseError(
+              'Roman numerals need a key. Add a line like "@key C major" first',
+              'missing-key',
+              span.start,
+              span.end,
+              { label: 'Declare "@key C major"', replacement: `@key C major\n${span.text}` }
+            );
+          }
+          lineChords = this.parseRomanNumeralLine(text, state.key, state.meter.time);
+        } else {
+          const chord = this.parseChordLine(text, warnings, state.definitions, state.meter.time, state.reference, state.system);
+          lineChords = chord ? [chord] : [];
         }
+
+        lineChords.forEach(chord => {
+          const placed: ParsedChord = {
+            ...chord,
+            line: invocationLine ?? line,
+            section: state.section,
+            voice: state.voice,
+            start: state.position,
+            ...Timeline.barBeat(state.position, state.meter),
+            timeSignature: state.meter.time
+          };
+          const arpeggio = { ...state.arpeggio, ...chord.arpeggio };
+          if (!chord.rest && ((arpeggio.pattern && arpeggio.pattern !== 'off') || arpeggio.strum)) {
+            placed.arpeggio = arpeggio;
+            const steps = arpeggio.pattern && arpeggio.pattern !== 'off' ? chord.duration / (arpeggio.rate ?? Arpeggio.defaultRate) : 0;
+            if (steps > Arpeggio.maxSteps) {
+              warnings.push({
+                code: 'long-arpeggio',
+                message: `Arpeggio of ${Math.ceil(steps)} steps is longer than ${Arpeggio.maxSteps}; its steps are lengthened to fit`,
+                start: span.start,
+                end: span.end
+              });
+            }
+          } else {
+            delete placed.arpeggio;
+          }
+          // Symbols and numerals are checked once resolved; interval lists were checked while parsing
+          const range = placed.symbol && !placed.rest ? this.lintSymbolRange(placed, text, state.reference, state.system) : null;
+          if (range) {
+            warnings.push(range);
+          }
+          state.chords.push(placed);
+          this.applyDynamics(placed, state);
+          state.position += chord.duration;
+        });
       } catch (error) {
-        throw new Error(`Line ${i + 1}: ${(error as Error).message}`);
+        // A lone word that is neither a chord nor a numeral is most likely a misspelt block name
+        const misspelt = name && !/^[A-G]/.test(name) && error instanceof ParseError &&
+          ['invalid-chord-symbol', 'invalid-roman-numeral', 'missing-key'].includes(error.code);
+        const reported = misspelt
+          ? new ParseError(`Undefined name: ${name}. Define it with "let ${name} = {"`, 'undefined-name', error.start, error.end)
+          : error;
+        this.reportError(state.diagnostics, reported, line, text);
       }
+
+      warnings.forEach(warning => this.addDiagnostic(state.diagnostics, Diagnostics.fromIssue(warning, 'warning', line)));
+    }
+  }
+
+  /**
+   * Parse the lines of a block definition where it is used
+   * @param definition - Block definition
+   * @param text - Line using the block
+   * @param state - Parse state
+   * @param stack - Blocks being expanded
+   * @param invocationLine - Line the chords are attributed to
+   */
+  static expandBlock(definition: Definition, text: string, state: ParseState, stack: string[], invocationLine: number): void {
+    const span = this.span(text);
+
+    if (!definition.body) {
+      throw new ParseError(
+        `${definition.name} is an interval list. Use it after a fundamental, e.g. "C4: ${definition.name}"`,
+        'not-a-block',
+        span.start,
+        span.end,
+        { label: `Use "C4: ${definition.name}"`, replacement: `C4: ${definition.name}` }
+      );
+    }
+    if (stack.includes(definition.name)) {
+      throw new ParseError(
+        `Recursive definition: ${stack.concat(definition.name).join(' → ')}`,
+        'recursive-definition',
+        span.start,
+        span.end
+      );
+    }
+
+    this.countExpansion(state, span);
+    state.depth++;
+    try {
+      this.parseLines(definition.body, state, stack.concat(definition.name), invocationLine);
+    } finally {
+      state.depth--;
+    }
+  }
+
+  /**
+   * Switch to another voice ("voice melody:")
+   * Each voice keeps its own position and time signature; a voice used for the first time in a
+   * section starts where the section starts.
+   * @param name - Voice name
+   * @param state - Parse state
+   * @param span - Line span (for errors)
+   */
+  static switchVoice(name: string, state: ParseState, span: LinePart): void {
+    if (!this.namePattern.test(name)) {
+      throw new ParseError(
+        `Invalid voice name: ${name || '(empty)'}. Use letters, digits, "-" and "_", e.g. "voice melody:"`,
+        'invalid-voice-name',
+        span.start,
+        span.end,
+        { label: 'Replace with "voice melody:"', replacement: 'voice melody:' }
+      );
+    }
+    if (state.depth > 0) {
+      throw new ParseError('Voices cannot be switched inside a block or repeat', 'nested-voice', span.start, span.end);
     }
 
-    if (chords.length === 0) {
-      throw new Error('No valid chords found in input');
+    // Directives and dynamics before the first voice line apply to every voice
+    if (state.voice === undefined && state.position === state.origin.position) {
+      state.origin = { position: state.position, meter: state.meter, dynamic: state.dynamic };
+    }
+
+    state.voices.set(state.voice ?? '', this.voiceState(state));
+    const next = state.voices.get(name) ?? state.origin;
+    state.voice = name;
+    state.position = next.position;
+    state.meter = next.meter;
+    state.dynamic = next.dynamic;
+    state.hairpin = next.hairpin;
+  }
+
+  /**
+   * Snapshot of the voice being parsed
+   * @param state - Parse state
+   * @returns Position, time signature and dynamics of the current voice
+   */
+  static voiceState(state: ParseState): VoiceState {
+    return { position: state.position, meter: state.meter, dynamic: state.dynamic, hairpin: state.hairpin };
+  }
+
+  /**
+   * Bring all voices together where the longest one ends, back in the main voice
+   * (every section starts with all voices aligned)
+   * @param state - Parse state
+   */
+  static joinVoices(state: ParseState): void {
+    const voices = [...state.voices.values(), this.voiceState(state)];
+    voices.forEach(voice => this.endHairpin(voice));
+    const longest = voices.reduce((a, b) => (b.position > a.position ? b : a));
+
+    state.voice = undefined;
+    state.voices.clear();
+    state.position = longest.position;
+    state.meter = longest.meter;
+    state.dynamic = longest.dynamic;
+    state.hairpin = undefined;
+    state.origin = { ...longest };
+  }
+
+  /**
+   * Set the velocity of a chord from the dynamics in effect
+   * A dynamic marking holds until the next one; "cresc" and "dim" move gradually (by position)
+   * from the current dynamic to the next marking.
+   * @param chord - Chord placed on the timeline
+   * @param state - Parse state
+   */
+  static applyDynamics(chord: ParsedChord, state: ParseState): void {
+    if (chord.rest) {
+      return;
+    }
+
+    if (chord.dynamic === 'cresc' || chord.dynamic === 'dim') {
+      const voice = this.voiceState(state);
+      this.endHairpin(voice);
+      state.dynamic = voice.dynamic;
+      state.hairpin = { type: chord.dynamic, from: state.dynamic, start: chord.start ?? 0, chords: [] };
+    } else if (chord.dynamic) {
+      const voice = this.voiceState(state);
+      this.endHairpin(voice, Dynamics.levels[chord.dynamic], chord.start);
+      state.hairpin = undefined;
+      state.dynamic = Dynamics.levels[chord.dynamic];
+    }
+
+    chord.velocity = state.dynamic;
+    state.hairpin?.chords.push(chord);
+  }
+
+  /**
+   * Spread an open crescendo or diminuendo over its chords
+   * Without a target dynamic it ends one marking louder (or softer), where its last chord ends.
+   * @param voice - Voice with the hairpin; its dynamic becomes the hairpin's target
+   * @param target - Velocity of the dynamic that ends the hairpin
+   * @param end - Position of that dynamic
+   */
+  static endHairpin(voice: VoiceState, target?: number, end?: number): void {
+    const hairpin = voice.hairpin;
+    voice.hairpin = undefined;
+    if (!hairpin || hairpin.chords.length === 0) {
+      return;
+    }
+
+    const last = hairpin.chords[hairpin.chords.length - 1];
+    const to = target ?? Dynamics.step(hairpin.from, hairpin.type);
+    const length = (end ?? (last.start ?? 0) + last.duration) - hairpin.start;
+    hairpin.chords.forEach(chord => {
+      const progress = length > 0 ? ((chord.start ?? 0) - hairpin.start) / length : 0;
+      chord.velocity = Math.round(hairpin.from + (to - hairpin.from) * progress);
+    });
+    voice.dynamic = to;
+  }
+
+  /**
+   * Parse an entire chord sequence, collecting every error and warning
+   * Supports the directive "@key D major" for Roman numeral lines that follow,
+   * "let" definitions that can be used anywhere in the input, repeats, sections and voices.
+   * Chords are returned in playback order (repeats unrolled, sections following the form);
+   * within a section the chords of each voice follow each other, with start positions that overlap.
+   * @param input - Multi-line chord sequence
+   * @param reference - Reference pitch that notes outside the MIDI range are found with
+   * @param system - Tuning system that notes outside the MIDI range are found with
+   * @returns Parsed chords (from valid lines) and diagnostics
+   */
+  static parse(input: string, reference: ReferencePitch = DEFAULT_REFERENCE, system: TuningSystem = PYTHAGOREAN): ParseResult {
+    const diagnostics: Diagnostic[] = [];
+    const { definitions, source } = this.collectDefinitions(input.split('\n'), diagnostics);
+    this.validateDefinitions(definitions, diagnostics);
+
+    const { preamble, order } = this.collectSections(source, diagnostics);
+
+    const state: ParseState = {
+      key: null,
+      chords: [],
+      diagnostics,
+      definitions,
+      meter: { start: 0, bar: 0, time: DEFAULT_TIME_SIGNATURE },
+      position: 0,
+      dynamic: Dynamics.defaultVelocity,
+      arpeggio: {},
+      tempoChanges: [],
+      voices: new Map(),
+      origin: { position: 0, meter: { start: 0, bar: 0, time: DEFAULT_TIME_SIGNATURE }, dynamic: Dynamics.defaultVelocity },
+      depth: 0,
+      expansions: 0,
+      reference,
+      system
+    };
+    this.parseLines(preamble, state);
+    order.forEach(section => {
+      this.joinVoices(state);
+      state.section = section.name;
+      this.parseLines(section.body, state);
+    });
+    this.joinVoices(state);
+
+    if (state.chords.length === 0 && !Diagnostics.hasErrors(diagnostics)) {
+      diagnostics.push({
+        severity: 'error',
+        line: 1,
+        column: 1,
+        endColumn: 1,
+        code: 'empty-sequence',
+        message: 'No valid chords found in input'
+      });
+    }
+
+    diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+    return { chords: state.chords, diagnostics, tempoChanges: state.tempoChanges };
+  }
+
+  /**
+   * Parse entire chord sequence input
+   * @param input - Multi-line chord sequence
+   * @returns Array of parsed chord objects
+   * @throws Error describing the first problem (e.g., "Line 3: ...")
+   */
+  static parseChordSequence(input: string): ParsedChord[] {
+    const { chords, diagnostics } = this.parse(input);
+
+    const firstError = diagnostics.find(d => d.severity === 'error');
+    if (firstError) {
+      throw new Error(
+        firstError.code === 'empty-sequence' ? firstError.message : `Line ${firstError.line}: ${firstError.message}`
+      );
     }
 
     return chords;
@@ -104,11 +1730,11 @@ export class Parser {
    * @throws Error if invalid
    */
   static validateChord(chord: ParsedChord): boolean {
-    if (!chord.fundamental) {
+    if (!chord.fundamental && !chord.rest) {
       throw new Error('Missing fundamental');
     }
 
-    if (!Array.isArray(chord.intervals) || chord.intervals.length === 0) {
+    if (!Array.isArray(chord.intervals) || (chord.intervals.length === 0 && !chord.rest)) {
       throw new Error('No intervals specified');
     }
 
@@ -124,20 +1750,54 @@ export class Parser {
    * @returns Example input
    */
   static getExampleSequence(): string {
-    return `# Major chord progression in C
-C4: 1,3,5, duration=2
-F4: 1,3,5, duration=2
-G4: 1,3,5, duration=2
-C4: 1,3,5, duration=4
+    return `# Major chord progression in C, growing from piano to forte
+C4: 1,3,5, duration=2, dynamic=p
+F4: 1,3,5, duration=2, dynamic=cresc
+G4: 1,3,5>, duration=2
+C4: 1,3,5, duration=4, dynamic=f
+rest, duration=1
 
 # Minor progression in A
 A3: 1,b3,5, duration=1.5
 D4: 1,b3,5, duration=1.5
 E4: 1,3,5, duration=1.5
-A3: 1,b3,5, duration=3
+A3: 1,b3,5, duration=1.5
 
 # Extended jazz voicing
 # Using Hz input and compound intervals
-440: 1,3,5,7,9,11, duration=4`;
+440: 1,3,5,7,9,11, duration=4
+
+# Lead-sheet chord symbols
+Cmaj7, duration=2
+Dm9, duration=2
+G7#11, duration=2
+F/A, duration=2
+
+# Roman numerals in a declared key
+@key D major
+ii7, V7, Imaj7, duration=2
+
+# Harmonic seventh with ratio and cents literals
+C4: 1, 5/4, 3/2, 7/4, duration=2
+A3: 0c, 386.3c, 701.96c, duration=2
+
+# Named voicings and reusable blocks
+let add9 = 1, 3, 5, 9
+let turnaround = {
+  Em7
+  A7
+  Dmaj7, duration=2
+}
+G3: add9
+turnaround
+
+# Waltz time with note-value durations, slowing down into the last bar
+@time 3/4
+C4: 1,3,5, duration=h
+G3: 1,3,5,b7, duration=q
+|
+@tempo 120 -> 80 over 1 bar
+C4: 1,3,5, duration=h.
+|`;
   }
 }
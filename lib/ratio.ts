@@ -0,0 +1,227 @@
+// Exact Rational Arithmetic
+// Frequency ratios are stored as prime-factor exponent vectors (monzos),
+// so products and powers stay exact and cents are computed without floating drift
+
+export class Ratio {
+  // Prime -> exponent (negative exponents belong to the denominator)
+  readonly factors: { [prime: number]: number };
+
+  // Primes monzos are written over (the 23-limit); other ratios are shown factored
+  static monzoPrimes = [2, 3, 5, 7, 11, 13, 17, 19, 23];
+
+  private constructor(factors: { [prime: number]: number }) {
+    const cleaned: { [prime: number]: number } = {};
+    Object.keys(factors).forEach(key => {
+      const prime = Number(key);
+      if (factors[prime] !== 0) {
+        cleaned[prime] = factors[prime];
+      }
+    });
+    this.factors = cleaned;
+  }
+
+  /**
+   * Create a ratio from a numerator and denominator
+   * @param numerator - Positive integer numerator
+   * @param denominator - Positive integer denominator
+   * @returns Reduced ratio
+   */
+  static of(numerator: number, denominator = 1): Ratio {
+    if (!Number.isSafeInteger(numerator) || !Number.isSafeInteger(denominator) || numerator <= 0 || denominator <= 0) {
+      throw new Error(`Invalid ratio: ${numerator}/${denominator}. Use positive whole numbers`);
+    }
+
+    const factors = this.factorize(numerator);
+    const denominatorFactors = this.factorize(denominator);
+    Object.keys(denominatorFactors).forEach(key => {
+      const prime = Number(key);
+      factors[prime] = (factors[prime] || 0) - denominatorFactors[prime];
+    });
+
+    return new Ratio(factors);
+  }
+
+  /**
+   * Create a ratio from a monzo (exponents of 2, 3, 5, 7, ...)
+   * @param monzo - Prime exponent vector
+   * @returns Ratio
+   */
+  static fromMonzo(monzo: number[]): Ratio {
+    const primes = this.primes(monzo.length);
+    const factors: { [prime: number]: number } = {};
+    monzo.forEach((exponent, i) => {
+      factors[primes[i]] = exponent;
+    });
+    return new Ratio(factors);
+  }
+
+  /**
+   * Factorize a positive integer by trial division
+   * @param value - Positive integer
+   * @returns Prime -> exponent map
+   */
+  private static factorize(value: number): { [prime: number]: number } {
+    const factors: { [prime: number]: number } = {};
+    let remaining = value;
+
+    for (let p = 2; p * p <= remaining; p++) {
+      while (remaining % p === 0) {
+        factors[p] = (factors[p] || 0) + 1;
+        remaining /= p;
+      }
+    }
+    if (remaining > 1) {
+      factors[remaining] = (factors[remaining] || 0) + 1;
+    }
+
+    return factors;
+  }
+
+  /**
+   * Prime numbers in ascending order
+   * @param count - Number of primes to return
+   * @param limit - Stop after this value
+   * @returns Primes
+   */
+  private static primes(count: number, limit = Infinity): number[] {
+    const primes: number[] = [];
+    for (let candidate = 2; primes.length < count && candidate <= limit; candidate++) {
+      if (primes.every(p => candidate % p !== 0)) {
+        primes.push(candidate);
+      }
+    }
+    return primes;
+  }
+
+  /**
+   * Multiply two ratios
+   * @param other - Ratio to multiply by
+   * @returns Product
+   */
+  multiply(other: Ratio): Ratio {
+    const factors = { ...this.factors };
+    Object.keys(other.factors).forEach(key => {
+      const prime = Number(key);
+      factors[prime] = (factors[prime] || 0) + other.factors[prime];
+    });
+    return new Ratio(factors);
+  }
+
+  /**
+   * Divide by another ratio
+   * @param other - Divisor
+   * @returns Quotient
+   */
+  divide(other: Ratio): Ratio {
+    return this.multiply(other.pow(-1));
+  }
+
+  /**
+   * Raise the ratio to an integer power
+   * @param exponent - Integer exponent (may be negative)
+   * @returns Power
+   */
+  pow(exponent: number): Ratio {
+    if (!Number.isInteger(exponent)) {
+      throw new Error(`Ratio exponent must be an integer: ${exponent}`);
+    }
+
+    const factors: { [prime: number]: number } = {};
+    Object.keys(this.factors).forEach(key => {
+      const prime = Number(key);
+      factors[prime] = this.factors[prime] * exponent;
+    });
+    return new Ratio(factors);
+  }
+
+  /**
+   * Exact numerator
+   */
+  get numerator(): bigint {
+    return this.product(1);
+  }
+
+  /**
+   * Exact denominator
+   */
+  get denominator(): bigint {
+    return this.product(-1);
+  }
+
+  /**
+   * Multiply out the primes with exponents of the given sign
+   * @param sign - 1 for the numerator, -1 for the denominator
+   * @returns Product of prime powers
+   */
+  private product(sign: number): bigint {
+    let result = BigInt(1);
+    Object.keys(this.factors).forEach(key => {
+      const prime = Number(key);
+      const exponent = this.factors[prime] * sign;
+      for (let i = 0; i < exponent; i++) {
+        result *= BigInt(prime);
+      }
+    });
+    return result;
+  }
+
+  /**
+   * Prime exponent vector over 2, 3, 5, ... up to the largest prime factor
+   * @returns Monzo (e.g., 81/64 -> [-6, 4]), or null if a factor lies beyond the 23-limit
+   */
+  monzo(): number[] | null {
+    const largest = Math.max(2, ...Object.keys(this.factors).map(Number));
+    if (!Ratio.monzoPrimes.includes(largest)) {
+      return null;
+    }
+    return Ratio.monzoPrimes.filter(p => p <= largest).map(p => this.factors[p] || 0);
+  }
+
+  /**
+   * Size in cents, summed per prime so that large powers do not lose precision
+   * @returns Cents
+   */
+  cents(): number {
+    return Object.keys(this.factors).reduce((sum, key) => {
+      const prime = Number(key);
+      return sum + 1200 * this.factors[prime] * Math.log2(prime);
+    }, 0);
+  }
+
+  /**
+   * Floating-point value of the ratio
+   * @returns Ratio as a number
+   */
+  toNumber(): number {
+    return Number(this.numerator) / Number(this.denominator);
+  }
+
+  /**
+   * Fraction notation (e.g., "81/64")
+   * @returns Fraction string
+   */
+  toString(): string {
+    return `${this.numerator}/${this.denominator}`;
+  }
+
+  /**
+   * Monzo notation (e.g., "[-6 4⟩"); ratios beyond the 23-limit are written as prime powers
+   * instead (e.g., "1000003 · 2⁻⁶ · 5⁻⁶")
+   * @returns Monzo string
+   */
+  toMonzoString(): string {
+    const monzo = this.monzo();
+    if (monzo) {
+      return `[${monzo.join(' ')}⟩`;
+    }
+
+    const superscript = (exponent: number) =>
+      exponent === 1 ? '' : Array.from(String(exponent), c => '⁰¹²³⁴⁵⁶⁷⁸⁹'['0123456789'.indexOf(c)] ?? '⁻').join('');
+    const primes = Object.keys(this.factors).map(Number).sort((a, b) => a - b);
+    return primes
+      .filter(p => this.factors[p] > 0)
+      .concat(primes.filter(p => this.factors[p] < 0))
+      .map(p => `${p}${superscript(this.factors[p])}`)
+      .join(' · ');
+  }
+}
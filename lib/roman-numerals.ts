@@ -0,0 +1,112 @@
+// Roman Numeral Parser
+// Resolves Roman-numeral chords (ii7, V7, Imaj7, bVII) against a declared key
+
+import { ChordSymbols, type ChordSymbol } from './chord-symbols';
+import { Intervals } from './intervals';
+import { PythagoreanTuning } from './tuning';
+
+export interface KeySignature {
+  tonic: string;             // Tonic note name without octave (e.g., "D", "Bb")
+  octave: number;            // Octave of the tonic
+  mode: 'major' | 'minor';
+}
+
+export class RomanNumerals {
+  // Scale degree intervals above the tonic
+  static scales: { [mode: string]: string[] } = {
+    major: ['1', '2', '3', '4', '5', '6', '7'],
+    minor: ['1', '2', 'b3', '4', '5', 'b6', 'b7'],   // Natural minor
+  };
+
+  static numerals = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII'];
+
+  /**
+   * Parse a key directive body (e.g., "D major", "Bb3 minor", "f#m")
+   * @param text - Key name and optional mode
+   * @returns Key signature
+   */
+  static parseKey(text: string): KeySignature {
+    const match = text.trim().match(/^([A-Ga-g][#b]?)(-?\d+)?\s*(major|minor|maj|min|m)?$/i);
+    if (!match) {
+      throw new Error(`Invalid key: ${text}. Expected format like "D major" or "Bb3 minor"`);
+    }
+
+    const tonic = match[1][0].toUpperCase() + match[1].slice(1);
+    const mode = match[3] && /^m(in(or)?)?$/i.test(match[3]) ? 'minor' : 'major';
+
+    return {
+      tonic,
+      octave: match[2] !== undefined ? parseInt(match[2]) : 4,
+      mode
+    };
+  }
+
+  /**
+   * Whether a token starts with a Roman numeral
+   * @param token - Candidate token
+   * @returns True for tokens like "ii7", "V", "bVII"
+   */
+  static isRomanNumeral(token: string): boolean {
+    return /^[b#♭♯]?(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)/.test(token.trim());
+  }
+
+  /**
+   * Resolve a Roman numeral into a chord in the given key
+   * Upper case numerals are major, lower case minor; suffixes follow chord symbol
+   * notation (7, maj7, ø7, °7, +, sus4, 9, ...)
+   * Secondary chords are resolved in the key of their target (e.g., "V7/V", "vii°7/ii").
+   * @param numeral - Roman numeral (e.g., "ii7", "V7", "bVII", "vii°7")
+   * @param key - Key signature
+   * @returns Fundamental and intervals
+   */
+  static parse(numeral: string, key: KeySignature): ChordSymbol {
+    const secondary = numeral.trim().match(/^(.+)\/([b#♭♯]?(?:VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i))$/);
+    if (secondary) {
+      const target = this.parse(secondary[2], key);
+      const targetKey: KeySignature = {
+        tonic: target.fundamental.replace(/-?\d+$/, ''),
+        octave: parseInt(target.fundamental.replace(/^[A-G][#b]*/, '')),
+        mode: /[iv]/.test(secondary[2]) ? 'minor' : 'major'
+      };
+      return this.parse(secondary[1], targetKey);
+    }
+
+    const match = numeral.trim().match(/^([b#♭♯]?)(VII|VI|IV|V|III|II|I|vii|vi|iv|v|iii|ii|i)(.*)$/);
+    if (!match) {
+      throw new Error(`Invalid Roman numeral: ${numeral}`);
+    }
+
+    const accidental = match[1] === '♭' ? 'b' : match[1] === '♯' ? '#' : match[1];
+    const degree = this.numerals.indexOf(match[2].toUpperCase());
+    const minor = match[2] === match[2].toLowerCase();
+    const suffix = match[3];
+
+    // Root: scale degree of the key; altered numerals (bIII, bVII, #IV) are relative to the major scale,
+    // and vii in minor is built on the leading tone (harmonic minor)
+    const leadingTone = key.mode === 'minor' && degree === 6 && minor;
+    const scale = accidental || leadingTone ? this.scales.major : this.scales[key.mode];
+    const scaleInterval = Intervals.parse(scale[degree]);
+    const alteration = accidental === '#' ? 7 : accidental === 'b' ? -7 : 0;
+    const rootFifths = PythagoreanTuning.noteNameToFifths(key.tonic) + scaleInterval.fifths + alteration;
+    const root = PythagoreanTuning.fifthsToNoteName(rootFifths);
+
+    // Roots that need a double accidental (e.g., #iv in C# major) cannot be written as a fundamental
+    if (PythagoreanTuning.noteToSemitone[root] === undefined) {
+      throw new Error(`Invalid Roman numeral: ${numeral} (its root in ${key.tonic} ${key.mode} would be ${root})`);
+    }
+
+    // Roots are placed in the octave of the tonic or above
+    const tonicLetter = ChordSymbols.letters.indexOf(key.tonic[0]);
+    const rootLetter = ChordSymbols.letters.indexOf(root[0]);
+    const octave = key.octave + (rootLetter < tonicLetter ? 1 : 0);
+
+    // Lower case numerals are minor unless the suffix names a diminished quality
+    const quality = minor && !/^(°|o(?!mit)|ø|dim)/.test(suffix) ? 'm' : '';
+
+    try {
+      return ChordSymbols.parse(root + quality + suffix, octave);
+    } catch (error) {
+      throw new Error(`Invalid Roman numeral: ${numeral} (${(error as Error).message})`);
+    }
+  }
+}
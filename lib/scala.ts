@@ -0,0 +1,396 @@
+// Scala Scales and Keyboard Mappings
+// Reads Scala scale files (.scl) and keyboard mappings (.kbm) into a tuning system:
+// interval names map to the nearest scale steps, and note names map to keys of the retuned keyboard
+
+import { Intervals } from './intervals';
+import { Ratio } from './ratio';
+import { PythagoreanTuning, type ReferencePitch, type TuningSystem } from './tuning';
+
+// Pitch of a scale step, as written in the file ("5/4", "386.31371", "2")
+export interface ScalaPitch {
+  text: string;
+  cents: number;
+  ratio: Ratio | null;   // Exact ratio for ratio pitches
+}
+
+export interface ScalaScale {
+  description: string;
+  pitches: ScalaPitch[];   // Steps 1..n above the root; the last one is the period (usually 2/1)
+}
+
+// Which scale degree each MIDI key plays ("x" entries leave a key unmapped)
+export interface KeyboardMapping {
+  size: number;                    // Keys in one repeat of the mapping (0 = every key is the next degree)
+  firstKey: number;                // Lowest MIDI key that is retuned
+  lastKey: number;                 // Highest MIDI key that is retuned
+  middleKey: number;               // Key that plays the root (degree 0)
+  referenceKey: number;            // Key tuned to the reference frequency
+  referenceFrequency: number;      // Hz
+  octaveDegree: number;            // Degree reached after one repeat of the mapping
+  degrees: Array<number | null>;   // Degree of each key in a repeat (null = unmapped)
+}
+
+export class Scala {
+  /**
+   * Parse a Scala scale file
+   * Lines starting with "!" are comments. The first other line is the description (it may be empty),
+   * the second the number of pitches, and then one pitch per line: cents when it contains a ".",
+   * otherwise a ratio ("5/4") or a whole number ("2" = 2/1). Text after the pitch is ignored.
+   * @param text - Contents of the .scl file
+   * @returns Scale
+   * @throws Error naming the line of the first problem (e.g., "Line 4: ...")
+   */
+  static parseScale(text: string): ScalaScale {
+    const lines = this.contentLines(text);
+    if (lines.length < 2) {
+      throw new Error('Incomplete scale file. Expected a description line, the number of pitches and the pitches');
+    }
+
+    const description = lines[0].text.trim();
+    const count = this.parseCount(lines[1], 'number of pitches');
+    if (count < 1) {
+      throw new Error(`Line ${lines[1].line}: A scale needs at least one pitch`);
+    }
+
+    const pitchLines = lines.slice(2).filter(line => line.text.trim());
+    if (pitchLines.length !== count) {
+      const line = (pitchLines[count] ?? pitchLines[pitchLines.length - 1] ?? lines[1]).line;
+      throw new Error(`Line ${line}: The scale declares ${count} pitch${count === 1 ? '' : 'es'} but lists ${pitchLines.length}`);
+    }
+
+    return { description, pitches: pitchLines.map(line => this.parsePitch(line)) };
+  }
+
+  /**
+   * Parse a Scala keyboard mapping file
+   * After comments: map size, first and last MIDI key, middle key, reference key, reference frequency,
+   * the degree that acts as the octave, then one degree (or "x") per key of the mapping.
+   * @param text - Contents of the .kbm file
+   * @returns Keyboard mapping
+   * @throws Error naming the line of the first problem
+   */
+  static parseMapping(text: string): KeyboardMapping {
+    const lines = this.contentLines(text).filter(line => line.text.trim());
+    const fields = ['map size', 'first MIDI key', 'last MIDI key', 'middle key', 'reference key', 'reference frequency', 'octave degree'];
+    if (lines.length < fields.length) {
+      throw new Error(`Incomplete keyboard mapping. Expected ${fields.length} header lines (${fields.join(', ')})`);
+    }
+
+    const [size, firstKey, lastKey, middleKey, referenceKey] = fields.slice(0, 5).map((name, i) => this.parseCount(lines[i], name));
+    [firstKey, lastKey, middleKey, referenceKey].forEach((key, i) => {
+      if (key > 127) {
+        throw new Error(`Line ${lines[i + 1].line}: Invalid ${fields[i + 1]}: ${key}. Expected a MIDI key from 0 to 127`);
+      }
+    });
+
+    const frequencyLine = lines[5];
+    const referenceFrequency = parseFloat(frequencyLine.text);
+    if (!/^\s*\d+(\.\d*)?(\s|$)/.test(frequencyLine.text) || !(referenceFrequency > 0)) {
+      throw new Error(`Line ${frequencyLine.line}: Invalid reference frequency: ${frequencyLine.text.trim()}. Expected Hz like 440.0`);
+    }
+    const octaveDegree = this.parseCount(lines[6], 'octave degree');
+
+    const entries = lines.slice(7);
+    if (entries.length < size) {
+      throw new Error(`Line ${lines[0].line}: The mapping declares ${size} keys but lists ${entries.length}`);
+    }
+    const degrees = entries.slice(0, size).map(line => {
+      const entry = line.text.trim().split(/\s+/)[0];
+      return entry.toLowerCase() === 'x' ? null : this.parseCount(line, 'scale degree or x');
+    });
+
+    return { size, firstKey, lastKey, middleKey, referenceKey, referenceFrequency, octaveDegree, degrees };
+  }
+
+  /**
+   * Write a scale as a Scala scale file
+   * @param scale - Scale
+   * @param filename - Name recorded in the header comment
+   * @returns Contents of the .scl file
+   */
+  static formatScale(scale: ScalaScale, filename: string): string {
+    return [
+      `! ${filename}`,
+      '!',
+      scale.description,
+      ` ${scale.pitches.length}`,
+      '!',
+      ...scale.pitches.map(pitch => ` ${pitch.text}`),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Write a keyboard mapping as a Scala keyboard mapping file
+   * @param mapping - Keyboard mapping
+   * @param filename - Name recorded in the header comment
+   * @returns Contents of the .kbm file
+   */
+  static formatMapping(mapping: KeyboardMapping, filename: string): string {
+    return [
+      `! ${filename}`,
+      '! Map size:',
+      mapping.size,
+      '! First MIDI note number to retune:',
+      mapping.firstKey,
+      '! Last MIDI note number to retune:',
+      mapping.lastKey,
+      '! Middle note where the first entry of the mapping is mapped to:',
+      mapping.middleKey,
+      '! Reference note for which frequency is given:',
+      mapping.referenceKey,
+      '! Frequency to tune the above note to:',
+      mapping.referenceFrequency.toFixed(6),
+      '! Scale degree to consider as formal octave:',
+      mapping.octaveDegree,
+      '! Mapping:',
+      ...mapping.degrees.map(degree => degree === null ? 'x' : degree),
+      ''
+    ].join('\n');
+  }
+
+  /**
+   * Pitch line for a cents value (always written with a dot, so it is read as cents)
+   * @param cents - Size in cents
+   * @returns Pitch
+   */
+  static centsPitch(cents: number): ScalaPitch {
+    return { text: cents.toFixed(6), cents, ratio: null };
+  }
+
+  /**
+   * Pitch line for an exact ratio
+   * @param ratio - Ratio
+   * @returns Pitch
+   */
+  static ratioPitch(ratio: Ratio): ScalaPitch {
+    return { text: ratio.toString(), cents: ratio.cents(), ratio };
+  }
+
+  /**
+   * Default mapping: every key plays the next degree, the root on middle C,
+   * and the reference pitch on its own key
+   * @param reference - Reference pitch
+   * @returns Linear keyboard mapping
+   */
+  static defaultMapping(reference: ReferencePitch): KeyboardMapping {
+    return {
+      size: 0,
+      firstKey: 0,
+      lastKey: 127,
+      middleKey: 60,
+      referenceKey: this.midiKey(reference.note),
+      referenceFrequency: reference.frequency,
+      octaveDegree: 0,
+      degrees: []
+    };
+  }
+
+  /**
+   * MIDI key of a note name (A4 = 69)
+   * @param note - Note with octave
+   * @returns MIDI key
+   */
+  static midiKey(note: string): number {
+    return 69 + PythagoreanTuning.noteToSemitonesFromA4(note);
+  }
+
+  /**
+   * Lines that are not comments, with their 1-based line numbers
+   * @param text - File contents
+   * @returns Lines in order
+   */
+  private static contentLines(text: string): Array<{ text: string; line: number }> {
+    return text
+      .split(/\r?\n/)
+      .map((line, i) => ({ text: line, line: i + 1 }))
+      .filter(line => !line.text.startsWith('!'));
+  }
+
+  /**
+   * Parse a non-negative whole number at the start of a line
+   * @param line - Line with its number
+   * @param name - What the number is (for errors)
+   * @returns Number
+   */
+  private static parseCount(line: { text: string; line: number }, name: string): number {
+    const match = line.text.match(/^\s*(\d+)(\s|$)/);
+    if (!match) {
+      throw new Error(`Line ${line.line}: Invalid ${name}: ${line.text.trim() || '(empty)'}. Expected a whole number`);
+    }
+    return parseInt(match[1]);
+  }
+
+  /**
+   * Parse a pitch line
+   * @param line - Line with its number
+   * @returns Pitch
+   */
+  private static parsePitch(line: { text: string; line: number }): ScalaPitch {
+    const text = line.text.trim().split(/\s+/)[0];
+
+    if (text.includes('.')) {
+      const cents = parseFloat(text);
+      if (!/^-?\d*\.\d*$/.test(text) || isNaN(cents)) {
+        throw new Error(`Line ${line.line}: Invalid cents value: ${text}. Expected a number like 701.955`);
+      }
+      return { text, cents, ratio: null };
+    }
+
+    const match = text.match(/^(\d+)(?:\/(\d+))?$/);
+    const numerator = match ? parseInt(match[1]) : NaN;
+    const denominator = match && match[2] !== undefined ? parseInt(match[2]) : 1;
+    if (!(numerator > 0) || !(denominator > 0)) {
+      throw new Error(`Line ${line.line}: Invalid ratio: ${text}. Expected a positive ratio like 5/4 or cents like 386.3`);
+    }
+
+    const ratio = Ratio.of(numerator, denominator);
+    return { text, cents: ratio.cents(), ratio };
+  }
+}
+
+/**
+ * Tuning system defined by a Scala scale and keyboard mapping
+ * Interval names pick the nearest scale step (by step count in 12-note scales, by Pythagorean size otherwise),
+ * and note names play the keys of the mapping, tuned from its reference key.
+ */
+export class ScalaTuning implements TuningSystem {
+  id = 'scala';
+  name: string;
+  description: string;
+
+  /**
+   * @param scale - Parsed .scl scale
+   * @param mapping - Parsed .kbm mapping (linear from the reference pitch when omitted)
+   */
+  constructor(public scale: ScalaScale, public mapping?: KeyboardMapping) {
+    this.name = `Scala: ${scale.description || `${scale.pitches.length}-note scale`}`;
+    this.description = `${scale.pitches.length} steps per ${scale.pitches[scale.pitches.length - 1].text}` +
+      (mapping ? `, mapped from MIDI key ${mapping.referenceKey} = ${mapping.referenceFrequency} Hz` : '') +
+      (scale.description ? ` (${scale.description})` : '');
+  }
+
+  /**
+   * Number of steps per period
+   */
+  get size(): number {
+    return this.scale.pitches.length;
+  }
+
+  /**
+   * Size of a scale degree above the root, continuing into further periods
+   * @param degree - Degree (0 = root; may be negative or beyond the period)
+   * @returns Cents
+   */
+  degreeCents(degree: number): number {
+    const periods = Math.floor(degree / this.size);
+    const step = degree - periods * this.size;
+    const period = this.scale.pitches[this.size - 1].cents;
+    return periods * period + (step === 0 ? 0 : this.scale.pitches[step - 1].cents);
+  }
+
+  /**
+   * Scale degree an interval name maps to
+   * @param interval - Interval notation (e.g., "3", "b7", "#11")
+   * @returns Degree above the root
+   */
+  degree(interval: string): number {
+    const spelled = Intervals.parse(interval);
+    if (this.size === 12 && Math.abs(this.scale.pitches[11].cents - 1200) < 1e-6) {
+      return Intervals.semitones(spelled);
+    }
+
+    // Nearest step to the Pythagorean size of the interval
+    const cents = 1200 * Math.log2(Intervals.ratio(spelled, 3 / 2));
+    const period = this.scale.pitches[this.size - 1].cents;
+    const first = (Math.floor(cents / period) - 1) * this.size;
+    let best = first;
+    for (let degree = first; degree <= first + 3 * this.size; degree++) {
+      if (Math.abs(this.degreeCents(degree) - cents) < Math.abs(this.degreeCents(best) - cents)) {
+        best = degree;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Ratio of the scale step an interval maps to
+   * @param interval - Interval notation
+   * @returns Frequency ratio
+   */
+  getIntervalRatio(interval: string): number {
+    return Math.pow(2, this.degreeCents(this.degree(interval)) / 1200);
+  }
+
+  /**
+   * Exact ratio of the step an interval maps to (when the step and period are ratios)
+   * @param interval - Interval notation
+   * @returns Exact ratio, or null for steps written in cents
+   */
+  getExactRatio(interval: string): Ratio | null {
+    const degree = this.degree(interval);
+    const periods = Math.floor(degree / this.size);
+    const step = degree - periods * this.size;
+    const period = this.scale.pitches[this.size - 1].ratio;
+    const pitch = step === 0 ? Ratio.of(1) : this.scale.pitches[step - 1].ratio;
+    return period && pitch ? pitch.multiply(period.pow(periods)) : null;
+  }
+
+  /**
+   * Frequency of the key a note name plays
+   * @param note - Note with octave (e.g., "C4")
+   * @param reference - Reference pitch (used when there is no .kbm)
+   * @returns Frequency in Hz
+   * @throws Error if the mapping leaves the key unmapped
+   */
+  noteToFrequency(note: string, reference: ReferencePitch): number {
+    const mapping = this.mapping ?? Scala.defaultMapping(reference);
+    const key = Scala.midiKey(note);
+    if (key < mapping.firstKey || key > mapping.lastKey) {
+      throw new Error(`${note} (MIDI key ${key}) is outside the keys retuned by the mapping (${mapping.firstKey}-${mapping.lastKey})`);
+    }
+
+    const frequency = this.keyFrequency(key, reference);
+    if (frequency === null) {
+      throw new Error(`${note} is not mapped to a scale degree`);
+    }
+    return frequency;
+  }
+
+  /**
+   * Frequency of a MIDI key
+   * @param key - MIDI key
+   * @param reference - Reference pitch (used when there is no .kbm)
+   * @returns Frequency in Hz, or null if the mapping leaves the key unmapped
+   * @throws Error if the reference key itself is unmapped
+   */
+  keyFrequency(key: number, reference: ReferencePitch): number | null {
+    const mapping = this.mapping ?? Scala.defaultMapping(reference);
+    const referenceDegree = this.keyDegree(mapping.referenceKey, mapping);
+    if (referenceDegree === null) {
+      throw new Error(`Reference key ${mapping.referenceKey} is not mapped to a scale degree`);
+    }
+
+    const degree = this.keyDegree(key, mapping);
+    if (degree === null || key < mapping.firstKey || key > mapping.lastKey) {
+      return null;
+    }
+    return mapping.referenceFrequency * Math.pow(2, (this.degreeCents(degree) - this.degreeCents(referenceDegree)) / 1200);
+  }
+
+  /**
+   * Scale degree a MIDI key plays
+   * @param key - MIDI key
+   * @param mapping - Keyboard mapping
+   * @returns Degree, or null for unmapped keys
+   */
+  private keyDegree(key: number, mapping: KeyboardMapping): number | null {
+    const offset = key - mapping.middleKey;
+    if (mapping.size === 0) {
+      return offset;
+    }
+    const repeats = Math.floor(offset / mapping.size);
+    const degree = mapping.degrees[offset - repeats * mapping.size];
+    return degree === null ? null : degree + repeats * mapping.octaveDegree;
+  }
+}
@@ -0,0 +1,282 @@
+// Musical Timeline
+// Durations are measured in quarter notes; the tempo map turns them into seconds for playback
+// and into ticks and tempo events for MIDI, so AudioPlayer and MIDIExporter share one timeline
+
+export interface TimeSignature {
+  numerator: number;     // Beats per bar
+  denominator: number;   // Note value of one beat (4 = quarter, 8 = eighth)
+}
+
+export const DEFAULT_TIME_SIGNATURE: TimeSignature = { numerator: 4, denominator: 4 };
+
+// Time signature in effect from a position onwards
+export interface Meter {
+  start: number;         // Position in quarter notes where the time signature takes effect
+  bar: number;           // 0-based index of the bar starting at that position
+  time: TimeSignature;
+}
+
+// Tempo set from a position onwards ("@tempo 90"), optionally ramping ("@tempo 120 -> 80 over 4 bars")
+export interface TempoChange {
+  start: number;         // Position in quarter notes
+  tempo: number;         // Quarter notes per minute at the start
+  endTempo?: number;     // Tempo reached at the end of the ramp (held afterwards)
+  length?: number;       // Length of the ramp in quarter notes
+}
+
+// Tolerance for positions built from triplets and dotted values
+const EPSILON = 1e-9;
+
+export class Timeline {
+  // Note values in quarter notes
+  static noteValues: { [symbol: string]: number } = {
+    w: 4,     // Whole
+    h: 2,     // Half
+    q: 1,     // Quarter
+    e: 0.5,   // Eighth
+    s: 0.25,  // Sixteenth
+  };
+
+  // Tempo changes in order, the first one at position 0
+  private changes: TempoChange[];
+
+  /**
+   * @param tempo - Quarter notes per minute until the first tempo change
+   * @param tempoChanges - Tempo changes declared in the sequence
+   */
+  constructor(public tempo = 120, tempoChanges: TempoChange[] = []) {
+    if (!(tempo > 0)) {
+      throw new Error(`Invalid tempo: ${tempo}`);
+    }
+    tempoChanges.forEach(change => {
+      if (!(change.tempo > 0) || (change.endTempo !== undefined && !(change.endTempo > 0))) {
+        throw new Error(`Invalid tempo: ${change.endTempo ?? change.tempo}`);
+      }
+    });
+
+    // A later change at the same position replaces an earlier one
+    const sorted = [{ start: 0, tempo }, ...tempoChanges]
+      .map((change, index) => ({ change, index }))
+      .sort((a, b) => a.change.start - b.change.start || a.index - b.index)
+      .map(({ change }) => change);
+    this.changes = sorted.filter((change, i) => i === sorted.length - 1 || sorted[i + 1].start > change.start + EPSILON);
+  }
+
+  /**
+   * Tempo at a position
+   * @param position - Position in quarter notes
+   * @returns Quarter notes per minute
+   */
+  tempoAt(position: number): number {
+    const change = [...this.changes].reverse().find(c => c.start <= position + EPSILON) ?? this.changes[0];
+    return this.rampTempo(change, position - change.start);
+  }
+
+  /**
+   * Tempo a distance after a tempo change
+   * @param change - Tempo change
+   * @param offset - Quarter notes after the change
+   * @returns Quarter notes per minute
+   */
+  private rampTempo(change: TempoChange, offset: number): number {
+    if (change.endTempo === undefined || !change.length) {
+      return change.tempo;
+    }
+    const progress = Math.min(1, Math.max(0, offset / change.length));
+    return change.tempo + (change.endTempo - change.tempo) * progress;
+  }
+
+  /**
+   * Time taken from a tempo change to a distance after it
+   * Within a ramp the tempo changes linearly with position, so the time is the integral of 60 / tempo.
+   * @param change - Tempo change
+   * @param offset - Quarter notes after the change
+   * @returns Seconds
+   */
+  private elapsed(change: TempoChange, offset: number): number {
+    if (change.endTempo === undefined || !change.length || change.endTempo === change.tempo) {
+      return (offset * 60) / this.rampTempo(change, offset);
+    }
+
+    const ramp = Math.min(offset, change.length);
+    const slope = (change.endTempo - change.tempo) / change.length;
+    const rampSeconds = (60 / slope) * Math.log(this.rampTempo(change, ramp) / change.tempo);
+    return rampSeconds + ((offset - ramp) * 60) / change.endTempo;
+  }
+
+  /**
+   * Time from the start of the sequence
+   * @param position - Position in quarter notes
+   * @returns Seconds
+   */
+  secondsAt(position: number): number {
+    return this.changes.reduce((seconds, change, i) => {
+      if (change.start >= position) {
+        return seconds;
+      }
+      const end = Math.min(position, this.changes[i + 1]?.start ?? Infinity);
+      return seconds + this.elapsed(change, end - change.start);
+    }, 0);
+  }
+
+  /**
+   * Length of an event in seconds
+   * @param start - Start in quarter notes
+   * @param duration - Duration in quarter notes
+   * @returns Seconds
+   */
+  seconds(start: number, duration: number): number {
+    return this.secondsAt(start + duration) - this.secondsAt(start);
+  }
+
+  /**
+   * Tempo map as a list of constant tempos (for MIDI set-tempo events)
+   * Ramps are split into steps whose tempo makes each step last exactly as long as in playback.
+   * @param end - Position in quarter notes where the sequence ends
+   * @param step - Length of a ramp step in quarter notes
+   * @returns Positions in quarter notes and the tempo from each position on
+   */
+  tempoMap(end: number, step = 0.25): Array<{ start: number; tempo: number }> {
+    const map: Array<{ start: number; tempo: number }> = [];
+    const add = (start: number, tempo: number) => {
+      const last = map[map.length - 1];
+      if (!last || Math.abs(last.tempo - tempo) > 1e-6) {
+        map.push({ start, tempo });
+      }
+    };
+
+    this.changes.forEach((change, i) => {
+      if (change.start > end && i > 0) {
+        return;
+      }
+      const next = Math.min(end, this.changes[i + 1]?.start ?? Infinity);
+      if (change.endTempo === undefined || !change.length) {
+        add(change.start, change.tempo);
+        return;
+      }
+
+      const rampEnd = Math.min(next, change.start + change.length);
+      for (let position = change.start; position < rampEnd - EPSILON; position += step) {
+        const length = Math.min(step, rampEnd - position);
+        add(position, (length * 60) / this.seconds(position, length));
+      }
+      if (rampEnd < next) {
+        add(rampEnd, change.endTempo);
+      }
+    });
+
+    return map;
+  }
+
+  /**
+   * Position in MIDI ticks
+   * @param position - Position in quarter notes
+   * @param ppq - Ticks per quarter note
+   * @returns Ticks
+   */
+  ticksAt(position: number, ppq: number): number {
+    return Math.round(position * ppq);
+  }
+
+  /**
+   * Length of one bar
+   * @param time - Time signature
+   * @returns Quarter notes per bar
+   */
+  static barLength(time: TimeSignature): number {
+    return (time.numerator * 4) / time.denominator;
+  }
+
+  /**
+   * Length of one beat
+   * @param time - Time signature
+   * @returns Quarter notes per beat
+   */
+  static beatLength(time: TimeSignature): number {
+    return 4 / time.denominator;
+  }
+
+  /**
+   * Parse a time signature (e.g., "3/4", "6/8")
+   * @param text - Time signature
+   * @returns Time signature
+   */
+  static parseTimeSignature(text: string): TimeSignature {
+    const match = text.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+    const numerator = match ? parseInt(match[1]) : NaN;
+    const denominator = match ? parseInt(match[2]) : NaN;
+
+    if (!(numerator >= 1 && numerator <= 32) || ![1, 2, 4, 8, 16, 32].includes(denominator)) {
+      throw new Error(`Invalid time signature: ${text}. Expected format like "3/4" or "6/8"`);
+    }
+
+    return { numerator, denominator };
+  }
+
+  /**
+   * Parse a duration into quarter notes
+   * Supports beats of the time signature ("2", "1.5b"), note values ("w", "h", "q", "e", "s"),
+   * dots ("q.", "h.."), triplets ("qt", "et") and ties ("h+e")
+   * @param text - Duration
+   * @param time - Time signature that defines the beat
+   * @returns Duration in quarter notes
+   */
+  static parseDuration(text: string, time: TimeSignature = DEFAULT_TIME_SIGNATURE): number {
+    const total = text.split('+').reduce((sum, term) => {
+      const token = term.trim();
+      const beats = token.match(/^(\d+(?:\.\d+)?|\.\d+)b?$/);
+      if (beats) {
+        return sum + parseFloat(beats[1]) * this.beatLength(time);
+      }
+
+      const note = token.match(/^([whqes])(\.*)(t?)$/);
+      if (!note) {
+        throw new Error(`Invalid duration: ${text}. Use beats ("2", "1.5b") or note values ("q", "h.", "et", "h+e")`);
+      }
+
+      const dotted = 2 - Math.pow(0.5, note[2].length);   // q. = 1.5, q.. = 1.75
+      const triplet = note[3] ? 2 / 3 : 1;
+      return sum + this.noteValues[note[1]] * dotted * triplet;
+    }, 0);
+
+    if (!(total > 0)) {
+      throw new Error(`Invalid duration: ${text}. Must be a positive length`);
+    }
+
+    return total;
+  }
+
+  /**
+   * Bar and beat of a position
+   * @param position - Position in quarter notes
+   * @param meter - Time signature in effect at the position
+   * @returns 1-based bar and beat (beats may be fractional, e.g. 2.5)
+   */
+  static barBeat(position: number, meter: Meter): { bar: number; beat: number } {
+    const barLength = this.barLength(meter.time);
+    const offset = position - meter.start;
+    const bars = Math.floor(offset / barLength + EPSILON);
+    const beat = (offset - bars * barLength) / this.beatLength(meter.time);
+
+    return { bar: meter.bar + bars + 1, beat: Math.round((beat + 1) * 1000) / 1000 };
+  }
+
+  /**
+   * Whether a position falls on a bar line
+   * @param position - Position in quarter notes
+   * @param meter - Time signature in effect at the position
+   * @returns True at the start of a bar
+   */
+  static isBarStart(position: number, meter: Meter): boolean {
+    return Math.abs(this.barBeat(position, meter).beat - 1) < 1e-6;
+  }
+
+  /**
+   * Format a time signature (e.g., "3/4")
+   * @param time - Time signature
+   * @returns Time signature text
+   */
+  static formatTimeSignature(time: TimeSignature): string {
+    return `${time.numerator}/${time.denominator}`;
+  }
+}
@@ -0,0 +1,226 @@
+// Chord Language Tokenizer
+// Splits input lines into highlighted tokens and suggests completions for the editor
+
+import { Arpeggio } from './arpeggio';
+import { Dynamics } from './dynamics';
+import { Parser } from './parser';
+import { RomanNumerals } from './roman-numerals';
+import { PythagoreanTuning } from './tuning';
+
+export type TokenType =
+  | 'fundamental'   // "A4", "440" before the colon
+  | 'interval'      // "b3", "M7", "#11"
+  | 'literal'       // "5/4", "386.3c"
+  | 'option'        // "duration=2", "octave=3", "dynamic=p", "arp=up"
+  | 'symbol'        // "Cmaj7", "F/A"
+  | 'numeral'       // "ii7", "V7/V"
+  | 'directive'     // "@key D major"
+  | 'comment'       // "# ..." or "// ..."
+  | 'keyword'       // "let", "repeat", "form", "rest", "voice"
+  | 'section'       // "[verse]", endings "[1]"
+  | 'name'          // Defined names ("maj9", "turnaround") and voice names
+  | 'punctuation';  // Colons, commas and whitespace
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;   // 0-based offset within the line
+  end: number;     // Exclusive
+}
+
+export interface Completion {
+  start: number;     // Offset of the word being completed
+  end: number;       // Offset of the cursor
+  items: string[];
+}
+
+export class ChordTokenizer {
+  static noteNames = ['C', 'C#', 'Db', 'D', 'D#', 'Eb', 'E', 'F', 'F#', 'Gb', 'G', 'G#', 'Ab', 'A', 'A#', 'Bb', 'B'];
+
+  // Middle octaves are suggested first
+  static octaves = [4, 3, 5, 2, 6, 1, 7, 0, 8];
+
+  static maxCompletions = 8;
+
+  // Options that apply to every kind of chord line
+  static options = ['duration=', 'dynamic=', 'articulation=', 'arp=', 'rate=', 'range=', 'strum='];
+
+  /**
+   * Split a line into tokens covering every character
+   * @param line - Line of input
+   * @param names - Names defined with "let"
+   * @returns Tokens in order
+   */
+  static tokenize(line: string, names: string[] = []): Token[] {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed === '}' || /^\|+$/.test(trimmed)) {
+      return line ? [{ type: 'punctuation', text: line, start: 0, end: line.length }] : [];
+    }
+
+    if (trimmed.startsWith('#') || trimmed.startsWith('//') || trimmed.startsWith('@')) {
+      const part = Parser.span(line);
+      return this.fill(line, [{ ...part, type: trimmed.startsWith('@') ? 'directive' : 'comment' }]);
+    }
+
+    const tokens: Token[] = [];
+    const colonIndex = line.indexOf(':');
+    const definition = line.match(/^(\s*)(let)(\s+)([^=\s]*)(\s*=)(.*)$/);
+    const repeat = line.match(/^(\s*)(repeat)\b(.*)$/i);
+    const form = line.match(/^(\s*)(form)(\s*:)(.*)$/i);
+    const voice = line.match(/^(\s*)(voice)(\s+)([^:\s]*)/i);
+
+    if (/^\[.*\]$/.test(trimmed)) {
+      tokens.push({ ...Parser.span(line), type: 'section' });
+    } else if (repeat) {
+      const keywordStart = repeat[1].length;
+      tokens.push({ type: 'keyword', text: repeat[2], start: keywordStart, end: keywordStart + repeat[2].length });
+      Parser.splitWords(repeat[3], line.length - repeat[3].length)
+        .filter(word => /^\d+$/.test(word.text))
+        .forEach(word => tokens.push({ ...word, type: 'literal' }));
+    } else if (form) {
+      const keywordStart = form[1].length;
+      tokens.push({ type: 'keyword', text: form[2], start: keywordStart, end: keywordStart + form[2].length });
+      Parser.splitWords(form[4], line.length - form[4].length).forEach(word => tokens.push({ ...word, type: 'name' }));
+    } else if (voice) {
+      const keywordStart = voice[1].length;
+      const nameStart = keywordStart + voice[2].length + voice[3].length;
+      tokens.push({ type: 'keyword', text: voice[2], start: keywordStart, end: keywordStart + voice[2].length });
+      tokens.push({ type: 'name', text: voice[4], start: nameStart, end: nameStart + voice[4].length });
+    } else if (definition) {
+      const keywordStart = definition[1].length;
+      const nameStart = keywordStart + 3 + definition[3].length;
+      const valueStart = line.length - definition[6].length;
+      tokens.push({ type: 'keyword', text: 'let', start: keywordStart, end: keywordStart + 3 });
+      tokens.push({ type: 'name', text: definition[4], start: nameStart, end: nameStart + definition[4].length });
+      if (definition[6].trim() !== '{') {
+        Parser.splitParts(definition[6], valueStart).forEach(part => {
+          tokens.push({ ...part, type: this.partType(part.text, 'interval', names) });
+        });
+      }
+    } else if (names.includes(trimmed)) {
+      tokens.push({ ...Parser.span(line), type: 'name' });
+    } else if (colonIndex !== -1) {
+      tokens.push({ ...Parser.span(line.substring(0, colonIndex)), type: 'fundamental' });
+      Parser.splitParts(line.substring(colonIndex + 1), colonIndex + 1).forEach(part => {
+        tokens.push({ ...part, type: this.partType(part.text, 'interval', names) });
+      });
+    } else {
+      const chordType = /^rest\b/i.test(trimmed) ? 'keyword' : RomanNumerals.isRomanNumeral(trimmed) ? 'numeral' : 'symbol';
+      Parser.splitParts(line).forEach(part => {
+        tokens.push({ ...part, type: this.partType(part.text, chordType) });
+      });
+    }
+
+    return this.fill(line, tokens.filter(token => token.text));
+  }
+
+  /**
+   * Classify a comma-separated part
+   * @param text - Part text
+   * @param fallback - Type of non-option parts on this line
+   * @param names - Names defined with "let"
+   * @returns Token type
+   */
+  private static partType(text: string, fallback: TokenType, names: string[] = []): TokenType {
+    if (/^[a-z]+\s*=/i.test(text)) {
+      return 'option';
+    }
+    if (fallback === 'interval' && names.includes(text)) {
+      return 'name';
+    }
+    if (fallback === 'interval' && PythagoreanTuning.isLiteral(text)) {
+      return 'literal';
+    }
+    return fallback;
+  }
+
+  /**
+   * Insert punctuation tokens for the gaps between tokens
+   * @param line - Line of input
+   * @param tokens - Tokens in order
+   * @returns Tokens covering the whole line
+   */
+  private static fill(line: string, tokens: Token[]): Token[] {
+    const filled: Token[] = [];
+    let position = 0;
+
+    const gap = (end: number) => {
+      if (end > position) {
+        filled.push({ type: 'punctuation', text: line.substring(position, end), start: position, end });
+      }
+    };
+
+    tokens.forEach(token => {
+      gap(token.start);
+      filled.push(token);
+      position = token.end;
+    });
+    gap(line.length);
+
+    return filled;
+  }
+
+  /**
+   * Suggest completions for the word before the cursor
+   * Fundamentals and chord symbols complete to note names, interval lists to the
+   * interval tokens known to PythagoreanTuning, and the tail of a line to its options;
+   * defined names are offered wherever they can be used
+   * @param line - Line containing the cursor
+   * @param cursor - Cursor offset within the line
+   * @param explicit - Whether completion was requested explicitly (suggest even for an empty word)
+   * @param names - Names defined with "let"
+   * @param sections - Section names (suggested on the form line)
+   * @returns Completion, or null when there is nothing to suggest
+   */
+  static complete(
+    line: string,
+    cursor: number,
+    explicit = false,
+    names: string[] = [],
+    sections: string[] = []
+  ): Completion | null {
+    const before = line.substring(0, cursor);
+    const trimmed = before.trimStart();
+    if (trimmed.startsWith('#') || trimmed.startsWith('//') || trimmed.startsWith('@') || /^let\s+[^=]*$/.test(trimmed)) {
+      return null;
+    }
+
+    const word = before.match(/[^\s,:[\]]*$/)![0];
+    if (!word && !explicit) {
+      return null;
+    }
+
+    const start = cursor - word.length;
+    const colonIndex = line.indexOf(':');
+    const equalsIndex = /^let\s/.test(trimmed) ? line.indexOf('=') : -1;
+    let candidates: string[];
+
+    if (/^form\s*:/i.test(trimmed)) {
+      candidates = sections;
+    } else if (/^(repeat|\[|voice\s)/i.test(trimmed)) {
+      candidates = [];
+    } else if (/^dynamic=/i.test(word)) {
+      candidates = Object.keys(Dynamics.levels).concat(['cresc', 'dim']).map(value => `dynamic=${value}`);
+    } else if (/^arp=/i.test(word)) {
+      candidates = [...Arpeggio.patterns, 'off'].map(value => `arp=${value}`);
+    } else if (/^articulation=/i.test(word)) {
+      candidates = Object.keys(Dynamics.gates).concat(['accent']).map(value => `articulation=${value}`);
+    } else if (equalsIndex !== -1) {
+      candidates = names.concat(Object.keys(PythagoreanTuning.intervals));
+    } else if (colonIndex !== -1 && start > colonIndex) {
+      candidates = names.concat(Object.keys(PythagoreanTuning.intervals), this.options);
+    } else if (colonIndex === -1 && before.includes(',')) {
+      candidates = RomanNumerals.isRomanNumeral(trimmed) ? this.options : this.options.concat(['octave=']);
+    } else {
+      // Without a colon the word may still become a chord symbol or a fundamental
+      const withOctaves = this.octaves.flatMap(octave => this.noteNames.map(name => name + octave));
+      candidates = colonIndex === -1 ? names.concat(['rest', 'voice'], this.noteNames, withOctaves) : withOctaves;
+    }
+
+    const items = candidates
+      .filter(candidate => candidate.toLowerCase().startsWith(word.toLowerCase()) && candidate !== word)
+      .slice(0, this.maxCompletions);
+
+    return items.length > 0 ? { start, end: cursor, items } : null;
+  }
+}
@@ -0,0 +1,632 @@
+// Sequence Transformations
+// Transposition by spelled intervals, inversions, drop voicings, retrograde,
+// octave displacement and duration scaling, applied to parsed chords.
+// The results are written back to the editor with Formatter.serialize.
+
+import { ChordSymbols } from './chord-symbols';
+import { Dynamics, type Hairpin } from './dynamics';
+import { Formatter } from './formatter';
+import { Intervals } from './intervals';
+import { Parser, type ParsedChord, type ParseResult } from './parser';
+import { Ratio } from './ratio';
+import { Timeline, type TempoChange } from './timeline';
+import { PythagoreanTuning } from './tuning';
+
+// Chords and tempo changes of a sequence
+export type Sequence = Pick<ParseResult, 'chords' | 'tempoChanges'>;
+
+// Reversed chord with the chord it came from and, under a hairpin, the velocities it may take
+interface ReversedChord {
+  chord: ParsedChord;
+  source?: ParsedChord;        // None for the rest that lets a shorter voice start late
+  range?: [number, number];
+}
+
+// Hairpin of a reversed voice, keyed by the chord it starts again from
+interface ReversedHairpin {
+  type: Hairpin;               // Original direction
+  first: ParsedChord;          // Chord the original hairpin started on, where the reversed one ends
+  to: number;                  // Velocity the original hairpin reached
+  range: [number, number];     // Velocities of the chords under it
+}
+
+// Tolerance for positions built from triplets and dotted values
+const EPSILON = 1e-9;
+
+export class Transformations {
+  /**
+   * Transpose every chord by a spelled interval
+   * Note names move along the chain of fifths (C4 up a 5 is G4, down a M2 is Bb3), so they stay spelled
+   * in the new key. The new fundamental is tuned like any note name (through the keyboard of the tuning
+   * system in chord-relative mode), so only fundamentals in Hz move by the interval's exact ratio.
+   * Chord symbols and Roman numeral keys move with their chords.
+   * @param sequence - Parsed sequence
+   * @param interval - Interval (e.g., "5", "M2", "b3", "8"); ratio literals only transpose fundamentals in Hz
+   * @param direction - Up or down
+   * @returns Transposed sequence
+   * @throws Error if a note would need a double sharp or flat
+   */
+  static transpose(sequence: Sequence, interval: string, direction: 'up' | 'down' = 'up'): Sequence {
+    const literal = PythagoreanTuning.parseLiteral(interval);
+    const spelled = literal === null ? Intervals.parse(interval) : null;
+    const sign = direction === 'up' ? 1 : -1;
+
+    const chords = sequence.chords.map(chord => {
+      if (chord.rest) {
+        return chord;
+      }
+
+      if (this.isFrequency(chord.fundamental)) {
+        const ratio = literal ?? PythagoreanTuning.getIntervalRatio(interval);
+        return { ...chord, fundamental: this.formatFrequency(parseFloat(chord.fundamental) * Math.pow(ratio, sign)) };
+      }
+      if (!spelled) {
+        throw new Error(`Cannot transpose ${chord.fundamental} by ${interval}. Use a spelled interval like 5 or M2 for note names`);
+      }
+
+      const transposed: ParsedChord = { ...chord, fundamental: this.transposeNote(chord.fundamental, spelled, sign) };
+      if (chord.tonic) {
+        transposed.tonic = this.transposeName(chord.tonic, spelled, sign);
+      } else if (chord.symbol) {
+        const symbol = this.transposeSymbol(chord.symbol, spelled, sign);
+        if (symbol) {
+          transposed.symbol = symbol;
+        } else {
+          delete transposed.symbol;
+        }
+      }
+      return transposed;
+    });
+
+    return { ...sequence, chords };
+  }
+
+  /**
+   * Invert every chord: its lowest notes move up an octave, one per inversion
+   * @param sequence - Parsed sequence
+   * @param inversion - 1 for first inversion, 2 for second, ...
+   * @returns Inverted sequence (chords written as interval lists)
+   */
+  static invert(sequence: Sequence, inversion = 1): Sequence {
+    if (!Number.isInteger(inversion) || inversion < 1) {
+      throw new Error(`Invalid inversion: ${inversion}. Use 1 for first inversion, 2 for second, ...`);
+    }
+
+    const chords = sequence.chords.map(chord => {
+      let notes = this.notes(chord);
+      if (notes.length < 2) {
+        return chord;
+      }
+      for (let i = 0; i < inversion; i++) {
+        const [lowest, ...rest] = notes;
+        notes = this.sortNotes([...rest, { ...lowest, interval: this.octaveUp(lowest.interval) }]);
+      }
+      return this.withNotes(chord, notes);
+    });
+
+    return { ...sequence, chords };
+  }
+
+  /**
+   * Drop voicing: the second (drop-2) or third (drop-3) note from the top of each chord moves down an octave
+   * The fundamental moves down with it and the other notes are written an octave higher,
+   * so every interval stays above the fundamental.
+   * @param sequence - Parsed sequence
+   * @param drop - 2 or 3
+   * @returns Revoiced sequence (chords with fewer than drop + 1 notes are unchanged)
+   */
+  static drop(sequence: Sequence, drop: 2 | 3): Sequence {
+    const chords = sequence.chords.map(chord => {
+      const notes = this.notes(chord);
+      if (notes.length <= drop) {
+        return chord;
+      }
+      const dropped = notes.length - drop;
+      const revoiced = notes.map((note, i) => (i === dropped ? note : { ...note, interval: this.octaveUp(note.interval) }));
+      return this.withNotes({ ...chord, fundamental: this.displaceNote(chord.fundamental, -1) }, [
+        revoiced[dropped],
+        ...revoiced.filter((_, i) => i !== dropped)
+      ]);
+    });
+
+    return { ...sequence, chords };
+  }
+
+  /**
+   * Play the sequence backwards
+   * Each voice is reversed within every section; the main voice of a section and its other voices are
+   * reversed separately, since the main voice plays first. A voice that ends early starts late, after a rest.
+   * Every chord keeps its velocity and tempo: dynamic markings are written again for the new order
+   * (each crescendo becomes a diminuendo and the other way round), and the tempo is mirrored with the chords.
+   * @param sequence - Parsed sequence
+   * @param tempo - Tempo before the first tempo change
+   * @returns Reversed sequence
+   * @throws Error if the reversed sequence cannot keep the tempo or dynamics of a chord
+   */
+  static retrograde(sequence: Sequence, tempo = 120): Sequence {
+    const reversed: ReversedChord[] = [];
+    const stretches: Array<{ start: number; end: number }> = [];
+
+    Formatter.splitRuns(sequence.chords).forEach(run => {
+      const parts = [run.chords.filter(chord => chord.voice === undefined), run.chords.filter(chord => chord.voice !== undefined)];
+      parts.filter(part => part.length > 0).forEach(part => {
+        const start = Math.min(...part.map(chord => chord.start ?? 0));
+        const end = Math.max(...part.map(chord => (chord.start ?? 0) + chord.duration));
+        stretches.push({ start, end });
+
+        [...new Set(part.map(chord => chord.voice))].forEach(voice => {
+          const voiceChords = part.filter(chord => chord.voice === voice);
+          const last = voiceChords[voiceChords.length - 1];
+          const gap = end - ((last.start ?? 0) + last.duration);
+          if (gap > EPSILON) {
+            const { section, timeSignature } = voiceChords[0];
+            reversed.push({ chord: { fundamental: '', intervals: [], duration: gap, rest: true, start, section, voice, timeSignature } });
+          }
+          reversed.push(...this.reverseVoice(voiceChords, start + end));
+        });
+      });
+    });
+
+    const chords = reversed.map(r => r.chord);
+    const tempoChanges = this.reverseTempo(sequence.tempoChanges, stretches, tempo);
+    const end = Math.max(0, ...stretches.map(stretch => stretch.end));
+    const stranded = tempoChanges.find(change =>
+      change.start < end - EPSILON && !chords.some(chord => Math.abs((chord.start ?? 0) - change.start) < EPSILON)
+    );
+    if (stranded) {
+      throw new Error('Cannot reverse a tempo ramp that ends inside a chord. Make the ramp end where a chord starts');
+    }
+
+    this.checkRetrograde(sequence, { chords, tempoChanges }, reversed, tempo);
+    return { chords, tempoChanges };
+  }
+
+  /**
+   * Reverse the chords of one voice and write their dynamics again
+   * The new first chord gets the dynamic in effect, and a hairpin runs back from the chord that ended it
+   * to the chord where it started, so every chord keeps its velocity (or, under a hairpin, stays
+   * between the hairpin's two dynamics).
+   * @param chords - Chords of the voice in playback order
+   * @param mirror - Start plus end of the stretch being reversed
+   * @returns Reversed chords
+   */
+  private static reverseVoice(chords: ParsedChord[], mirror: number): ReversedChord[] {
+    const notes = chords.filter(chord => !chord.rest);
+    const velocity = (chord: ParsedChord) => chord.velocity ?? Dynamics.defaultVelocity;
+
+    // Each hairpin starts again, from the dynamic it reached, at the chord with the dynamic that ended it
+    // (or at its last chord) and ends at the chord where it started
+    const hairpins = new Map<ParsedChord, ReversedHairpin>();
+    notes.forEach((chord, i) => {
+      if (chord.dynamic !== 'cresc' && chord.dynamic !== 'dim') {
+        return;
+      }
+      let last = i;
+      while (notes[last + 1] && !notes[last + 1].dynamic) {
+        last++;
+      }
+      const target = notes[last + 1]?.dynamic && notes[last + 1].dynamic! in Dynamics.levels ? notes[last + 1] : undefined;
+      const from = velocity(chord);
+      const to = target ? velocity(target) : Dynamics.step(from, chord.dynamic);
+      const begin = target ?? notes[last];
+      if (begin !== chord) {
+        hairpins.set(begin, { type: chord.dynamic, first: chord, to, range: [Math.min(from, to), Math.max(from, to)] });
+      }
+    });
+
+    const marks = new Map<ParsedChord, { dynamic?: string; range?: [number, number] }>();
+    let current: number | undefined;
+    let open: ReversedHairpin | undefined;
+    let late = false;
+    const markLevel = (level: number) => {
+      const dynamic = Dynamics.marking(level);
+      current = Dynamics.levels[dynamic];
+      return dynamic;
+    };
+
+    [...notes].reverse().forEach(chord => {
+      const opposite = open?.type === 'cresc' ? 'dim' : 'cresc';
+      if (open && chord === open.first) {
+        marks.set(chord, { dynamic: markLevel(velocity(chord)) });
+        open = undefined;
+      } else if (open) {
+        // A hairpin that could not start on its first chord starts on the next one
+        marks.set(chord, { dynamic: late ? opposite : undefined, range: open.range });
+        late = false;
+      } else if (hairpins.has(chord)) {
+        open = hairpins.get(chord)!;
+        late = current !== open.to;
+        marks.set(chord, { dynamic: late ? markLevel(open.to) : open.type === 'cresc' ? 'dim' : 'cresc', range: open.range });
+      } else {
+        marks.set(chord, { dynamic: current !== velocity(chord) ? markLevel(velocity(chord)) : undefined });
+      }
+    });
+
+    return [...chords].reverse().map(source => {
+      const mark = marks.get(source);
+      const { dynamic, ...chord } = source;
+      const start = mirror - (source.start ?? 0) - source.duration;
+      return { chord: { ...chord, start, ...(mark?.dynamic && { dynamic: mark.dynamic }) }, source, range: mark?.range };
+    });
+  }
+
+  /**
+   * Mirror the tempo within each reversed stretch, so that every chord keeps the tempo it had
+   * A ramp runs the other way, from the tempo it reached back to the tempo it started from.
+   * @param tempoChanges - Tempo changes of the sequence
+   * @param stretches - Stretches that were reversed, in order
+   * @param tempo - Tempo before the first tempo change
+   * @returns Tempo changes of the reversed sequence
+   */
+  private static reverseTempo(tempoChanges: TempoChange[], stretches: Array<{ start: number; end: number }>, tempo: number): TempoChange[] {
+    // A later change at the same position replaces an earlier one
+    const changes = [{ start: 0, tempo }, ...tempoChanges]
+      .map((change, index) => ({ change, index }))
+      .sort((a, b) => a.change.start - b.change.start || a.index - b.index)
+      .map(({ change }) => change)
+      .filter((change, i, all) => !(all[i + 1] && Math.abs(all[i + 1].start - change.start) < EPSILON));
+
+    // Tempo at a position, or just before it
+    const tempoAt = (position: number, before = false) => {
+      const change = [...changes].reverse().find(c => (before ? c.start < position - EPSILON : c.start <= position + EPSILON)) ?? changes[0];
+      if (change.endTempo === undefined || !change.length) {
+        return change.tempo;
+      }
+      const progress = Math.min(1, Math.max(0, (position - change.start) / change.length));
+      return change.tempo + (change.endTempo - change.tempo) * progress;
+    };
+    const round = (value: number) => Math.round(value * 1e6) / 1e6;
+
+    const reversed: TempoChange[] = [];
+    let current = tempo;
+    stretches.forEach(({ start, end }) => {
+      const points = [
+        start,
+        ...changes.flatMap(change => [change.start, change.start + (change.length ?? 0)]).filter(p => p > start + EPSILON && p < end - EPSILON),
+        end
+      ].sort((a, b) => a - b).filter((p, i, all) => i === 0 || p - all[i - 1] > EPSILON);
+
+      // The last piece of the stretch plays first
+      for (let i = points.length - 1; i > 0; i--) {
+        const from = round(tempoAt(points[i], true));
+        const to = round(tempoAt(points[i - 1]));
+        const change: TempoChange = from === to
+          ? { start: start + end - points[i], tempo: from }
+          : { start: start + end - points[i], tempo: from, endTempo: to, length: points[i] - points[i - 1] };
+        if (change.endTempo !== undefined || change.tempo !== current) {
+          reversed.push(change);
+        }
+        current = change.endTempo ?? change.tempo;
+      }
+    });
+
+    // Changes after the last chord stay where they are
+    const end = Math.max(0, ...stretches.map(stretch => stretch.end));
+    return [...reversed, ...tempoChanges.filter(change => change.start >= end - EPSILON)];
+  }
+
+  /**
+   * Check that every reversed chord plays with the tempo and velocity it had
+   * The reversed sequence is written and parsed again, as the editor will.
+   * @param sequence - Original sequence
+   * @param result - Reversed sequence
+   * @param reversed - Reversed chords with the chords they came from
+   * @param tempo - Tempo before the first tempo change
+   * @throws Error naming the first chord that would change
+   */
+  private static checkRetrograde(sequence: Sequence, result: Sequence, reversed: ReversedChord[], tempo: number): void {
+    const parsed = Parser.parse(Formatter.serialize(result.chords, result.tempoChanges));
+    if (parsed.diagnostics.some(d => d.severity === 'error') || parsed.chords.length !== reversed.length) {
+      return;
+    }
+
+    const before = new Timeline(tempo, sequence.tempoChanges);
+    const after = new Timeline(tempo, parsed.tempoChanges);
+    const middle = (chord: ParsedChord) => (chord.start ?? 0) + chord.duration / 2;
+
+    parsed.chords.forEach((chord, i) => {
+      const { source, range } = reversed[i];
+      if (!source) {
+        return;
+      }
+      const where = `the chord at bar ${chord.bar ?? 1} of the reversed sequence`;
+      const tempos = [after.tempoAt(middle(chord)), before.tempoAt(middle(source))];
+      if (Math.abs(tempos[0] - tempos[1]) > 1e-3) {
+        const [actual, expected] = tempos.map(t => Math.round(t * 100) / 100);
+        throw new Error(`Retrograde would change the tempo of ${where} (${actual} instead of ${expected})`);
+      }
+      const velocity = chord.velocity ?? Dynamics.defaultVelocity;
+      const expected = source.velocity ?? Dynamics.defaultVelocity;
+      const [low, high] = range ?? [expected, expected];
+      if (!source.rest && (velocity < low || velocity > high)) {
+        throw new Error(`Retrograde would change the dynamics of ${where} (velocity ${velocity} instead of ${expected})`);
+      }
+    });
+  }
+
+  /**
+   * Move every chord up or down by whole octaves
+   * @param sequence - Parsed sequence
+   * @param octaves - Octaves to move (negative moves down)
+   * @returns Displaced sequence
+   */
+  static displace(sequence: Sequence, octaves: number): Sequence {
+    if (!Number.isInteger(octaves)) {
+      throw new Error(`Invalid octave displacement: ${octaves}. Use a whole number of octaves`);
+    }
+
+    const chords = sequence.chords.map(chord => {
+      if (chord.rest || octaves === 0) {
+        return chord;
+      }
+      return { ...chord, fundamental: this.displaceNote(chord.fundamental, octaves) };
+    });
+
+    return { ...sequence, chords };
+  }
+
+  /**
+   * Scale every duration (and arpeggio rate and tempo ramp) by a factor
+   * @param sequence - Parsed sequence
+   * @param factor - 2 doubles every duration, 1/2 halves it
+   * @returns Scaled sequence
+   */
+  static scaleDurations(sequence: Sequence, factor: number): Sequence {
+    if (!(factor > 0)) {
+      throw new Error(`Invalid scale factor: ${factor}. Use a positive number like 2 or 1/2`);
+    }
+
+    const chords = sequence.chords.map(chord => ({
+      ...chord,
+      duration: chord.duration * factor,
+      start: (chord.start ?? 0) * factor,
+      ...(chord.arpeggio?.rate !== undefined && { arpeggio: { ...chord.arpeggio, rate: chord.arpeggio.rate * factor } })
+    }));
+    const tempoChanges = sequence.tempoChanges.map(change => ({
+      ...change,
+      start: change.start * factor,
+      ...(change.length !== undefined && { length: change.length * factor })
+    }));
+
+    return { chords, tempoChanges };
+  }
+
+  /**
+   * Parse a scale factor ("2", "0.5", "1/2", "3/2")
+   * @param text - Factor
+   * @returns Factor
+   */
+  static parseFactor(text: string): number {
+    const match = text.trim().match(/^(\d+(?:\.\d+)?)(?:\s*\/\s*(\d+(?:\.\d+)?))?$/);
+    const factor = match ? parseFloat(match[1]) / (match[2] !== undefined ? parseFloat(match[2]) : 1) : NaN;
+    if (!(factor > 0) || !isFinite(factor)) {
+      throw new Error(`Invalid scale factor: ${text}. Use a positive number like 2 or 1/2`);
+    }
+    return factor;
+  }
+
+  /**
+   * Parse a whole number ("1", "-2")
+   * @param text - Number
+   * @param name - What it counts, for the error (e.g., "inversion")
+   * @returns Integer
+   */
+  static parseInteger(text: string, name: string): number {
+    if (!/^[+-]?\d+$/.test(text.trim())) {
+      throw new Error(`Invalid ${name}: ${text.trim() || '(empty)'}. Use a whole number like 1 or -1`);
+    }
+    return parseInt(text.trim());
+  }
+
+  /**
+   * Notes of a chord from low to high, each with its accent
+   * @param chord - Parsed chord
+   * @returns Notes sorted by size
+   */
+  private static notes(chord: ParsedChord): Array<{ interval: string; accent: boolean }> {
+    return this.sortNotes(chord.intervals.map((interval, i) => ({ interval, accent: Boolean(chord.accents?.[i]) })));
+  }
+
+  /**
+   * Sort notes from low to high
+   * @param notes - Notes
+   * @returns Sorted notes
+   */
+  private static sortNotes(notes: Array<{ interval: string; accent: boolean }>): Array<{ interval: string; accent: boolean }> {
+    return [...notes].sort((a, b) => this.size(a.interval) - this.size(b.interval));
+  }
+
+  /**
+   * Chord with new notes, written as an interval list
+   * @param chord - Parsed chord
+   * @param notes - Notes in order
+   * @returns Chord without its symbol
+   */
+  private static withNotes(chord: ParsedChord, notes: Array<{ interval: string; accent: boolean }>): ParsedChord {
+    const { symbol, tonic, ...rest } = chord;
+    return {
+      ...rest,
+      intervals: notes.map(note => note.interval),
+      ...(chord.accents && { accents: notes.map(note => note.accent) })
+    };
+  }
+
+  /**
+   * Size of an interval, for sorting
+   * @param interval - Interval or literal
+   * @returns Cents
+   */
+  private static size(interval: string): number {
+    const literal = PythagoreanTuning.parseLiteral(interval);
+    return 1200 * Math.log2(literal ?? PythagoreanTuning.getIntervalRatio(interval));
+  }
+
+  /**
+   * The same interval an octave higher ("3" becomes "10", "5/4" becomes "5/2", "386.3c" becomes "1586.3c")
+   * @param interval - Interval or literal
+   * @returns Compound interval
+   */
+  static octaveUp(interval: string): string {
+    const exact = PythagoreanTuning.parseExactLiteral(interval);
+    if (exact) {
+      const ratio = exact.multiply(Ratio.of(2));
+      return `${ratio.numerator}/${ratio.denominator}`;
+    }
+    const cents = interval.trim().match(/^(-?\d+(?:\.\d+)?)c$/);
+    if (cents) {
+      return `${Math.round((parseFloat(cents[1]) + 1200) * 1e6) / 1e6}c`;
+    }
+    const spelled = Intervals.parse(interval);
+    return Intervals.toString({ number: spelled.number + 7, fifths: spelled.fifths });
+  }
+
+  /**
+   * Transpose a note with octave along the chain of fifths
+   * @param note - Note with octave (e.g., "C4")
+   * @param interval - Spelled interval
+   * @param sign - 1 for up, -1 for down
+   * @returns Transposed note (e.g., "G4")
+   */
+  static transposeNote(note: string, interval: { number: number; fifths: number }, sign: number): string {
+    const match = note.match(/^([A-G][#b]?)(-?\d+)$/);
+    if (!match) {
+      throw new Error(`Invalid note: ${note}`);
+    }
+
+    const name = this.transposeName(match[1], interval, sign);
+    const letterIndex = ChordSymbols.letters.indexOf(match[1][0]) + sign * (interval.number - 1);
+    return `${name}${parseInt(match[2]) + Math.floor(letterIndex / 7)}`;
+  }
+
+  /**
+   * Transpose a note name without octave
+   * @param name - Note name (e.g., "F#")
+   * @param interval - Spelled interval
+   * @param sign - 1 for up, -1 for down
+   * @returns Transposed note name
+   * @throws Error if the result needs a double sharp or flat
+   */
+  static transposeName(name: string, interval: { number: number; fifths: number }, sign: number): string {
+    const transposed = PythagoreanTuning.fifthsToNoteName(PythagoreanTuning.noteNameToFifths(name) + sign * interval.fifths);
+    if (PythagoreanTuning.noteToSemitone[transposed] === undefined) {
+      throw new Error(
+        `${name} ${sign > 0 ? 'up' : 'down'} ${Intervals.toString(interval)} is ${transposed}, which cannot be written. ` +
+        'Transpose by an enharmonic interval instead (e.g., b5 for #4)'
+      );
+    }
+    return transposed;
+  }
+
+  /**
+   * Transpose the root and bass of a chord symbol
+   * @param symbol - Chord symbol (e.g., "F/A")
+   * @param interval - Spelled interval
+   * @param sign - 1 for up, -1 for down
+   * @returns Transposed symbol, or null if it cannot be written
+   */
+  private static transposeSymbol(symbol: string, interval: { number: number; fifths: number }, sign: number): string | null {
+    const match = symbol.match(/^([A-G][#b]?)([^/]*(?:\/9[^/]*)?)(?:\/([A-G][#b]?))?$/);
+    if (!match) {
+      return null;
+    }
+    try {
+      const bass = match[3] ? `/${this.transposeName(match[3], interval, sign)}` : '';
+      return `${this.transposeName(match[1], interval, sign)}${match[2]}${bass}`;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Move a fundamental by whole octaves
+   * @param fundamental - Note with octave or frequency in Hz
+   * @param octaves - Octaves to move
+   * @returns Displaced fundamental
+   */
+  private static displaceNote(fundamental: string, octaves: number): string {
+    if (this.isFrequency(fundamental)) {
+      return this.formatFrequency(parseFloat(fundamental) * Math.pow(2, octaves));
+    }
+    return fundamental.replace(/-?\d+$/, octave => String(parseInt(octave) + octaves));
+  }
+
+  /**
+   * Whether a fundamental is a frequency in Hz
+   * @param fundamental - Fundamental
+   * @returns True for "440", "261.63 Hz"
+   */
+  private static isFrequency(fundamental: string): boolean {
+    return /^\d/.test(fundamental);
+  }
+
+  /**
+   * Write a frequency for the chord text
+   * @param frequency - Frequency in Hz
+   * @returns Frequency rounded to a millionth of a hertz
+   */
+  private static formatFrequency(frequency: number): string {
+    return String(Math.round(frequency * 1e6) / 1e6);
+  }
+}
+
+// Transformation offered in the editor, with the argument it takes
+export interface Transformation {
+  id: string;
+  name: string;
+  argument?: string;   // Label of the argument ("Interval")
+  example?: string;    // Default argument
+  apply: (sequence: Sequence, argument: string, tempo: number) => Sequence;   // Tempo before the first tempo change
+}
+
+export const TRANSFORMATIONS: Transformation[] = [
+  {
+    id: 'transpose-up',
+    name: 'Transpose up',
+    argument: 'Interval',
+    example: '5',
+    apply: (sequence, argument) => Transformations.transpose(sequence, argument.trim(), 'up')
+  },
+  {
+    id: 'transpose-down',
+    name: 'Transpose down',
+    argument: 'Interval',
+    example: 'M2',
+    apply: (sequence, argument) => Transformations.transpose(sequence, argument.trim(), 'down')
+  },
+  {
+    id: 'invert',
+    name: 'Invert',
+    argument: 'Inversion',
+    example: '1',
+    apply: (sequence, argument) => Transformations.invert(sequence, Transformations.parseInteger(argument, 'inversion'))
+  },
+  {
+    id: 'drop-2',
+    name: 'Drop-2 voicing',
+    apply: sequence => Transformations.drop(sequence, 2)
+  },
+  {
+    id: 'drop-3',
+    name: 'Drop-3 voicing',
+    apply: sequence => Transformations.drop(sequence, 3)
+  },
+  {
+    id: 'retrograde',
+    name: 'Retrograde',
+    apply: (sequence, _, tempo) => Transformations.retrograde(sequence, tempo)
+  },
+  {
+    id: 'octave',
+    name: 'Move by octaves',
+    argument: 'Octaves',
+    example: '-1',
+    apply: (sequence, argument) => Transformations.displace(sequence, Transformations.parseInteger(argument, 'octave displacement'))
+  },
+  {
+    id: 'scale',
+    name: 'Scale durations',
+    argument: 'Factor',
+    example: '1/2',
+    apply: (sequence, argument) => Transformations.scaleDurations(sequence, Transformations.parseFactor(argument))
+  }
+];
@@ -0,0 +1,161 @@
+// Tuning File Export
+// Writes the active tuning as Scala (.scl + .kbm) and AnaMark (.tun) files, so that a retuned synthesizer
+// plays the equal-temperament MIDI export in the tuning without pitch bends
+
+import { Intervals } from './intervals';
+import { Ratio } from './ratio';
+import { Scala, ScalaTuning, type KeyboardMapping } from './scala';
+import { EqualDivisionTuning, PythagoreanTuning, type KeyAnchor, type ReferencePitch, type TuningSystem } from './tuning';
+
+export interface TuningFile {
+  filename: string;
+  content: string;
+}
+
+export class TuningExport {
+  // Frequency of MIDI key 0 at A4 = 440 Hz, the base of AnaMark cents values
+  static anamarkBase = 8.1757989156;
+
+  /**
+   * Tuning of every MIDI key as a scale and keyboard mapping
+   * Scala tunings keep their own scale and mapping, and equal divisions all their steps with the keys
+   * mapped to the steps the gamut names. Other tunings become a 12-note scale on the tonic:
+   * each key plays the interval from the tonic that the 12-note gamut spells it as (so the wolf fifth
+   * falls where the gamut puts it), with the tonic in octave 4 tuned as in key-anchored mode.
+   * @param system - Tuning system
+   * @param anchor - Tonic and wolf position of the gamut
+   * @param reference - Reference pitch
+   * @returns Scale and keyboard mapping
+   */
+  static toScala(system: TuningSystem, anchor: KeyAnchor, reference: ReferencePitch): ScalaTuning {
+    if (system instanceof ScalaTuning) {
+      return new ScalaTuning(system.scale, system.mapping ?? Scala.defaultMapping(reference));
+    }
+
+    const tonicFifths = PythagoreanTuning.noteNameToFifths(anchor.tonic);
+    const low = tonicFifths + anchor.wolfPosition;
+    const description = `${system.name} on ${anchor.tonic} (gamut ${PythagoreanTuning.fifthsToNoteName(low)} to ${PythagoreanTuning.fifthsToNoteName(low + 11)})`;
+    const tonic = `${anchor.tonic}4`;
+    const tonicKey = Scala.midiKey(tonic);
+    const mapping: KeyboardMapping = {
+      size: 12,
+      firstKey: 0,
+      lastKey: 127,
+      middleKey: tonicKey,
+      referenceKey: tonicKey,
+      referenceFrequency: system.noteToFrequency
+        ? system.noteToFrequency(tonic, reference)
+        : PythagoreanTuning.noteToAnchoredFrequency(tonic, anchor, system, reference),
+      octaveDegree: 12,
+      degrees: Array.from({ length: 12 }, (_, i) => i)
+    };
+
+    if (system instanceof EqualDivisionTuning) {
+      const pitches = Array.from({ length: system.steps }, (_, i) =>
+        i + 1 === system.steps ? Scala.ratioPitch(Ratio.of(2)) : Scala.centsPitch(((i + 1) * 1200) / system.steps)
+      );
+      const degrees = Array.from({ length: 12 }, (_, step) => step === 0 ? 0 : system.step(this.gamutInterval(step, anchor)));
+      return new ScalaTuning({ description, pitches }, { ...mapping, octaveDegree: system.steps, degrees });
+    }
+
+    const pitches = Array.from({ length: 12 }, (_, i) => {
+      const step = i + 1;
+      if (step === 12) {
+        return Scala.ratioPitch(Ratio.of(2));
+      }
+      const interval = this.gamutInterval(step, anchor);
+      const exact = PythagoreanTuning.resolveExactRatio(interval, system);
+      return exact ? Scala.ratioPitch(exact) : Scala.centsPitch(1200 * Math.log2(system.getIntervalRatio(interval)));
+    });
+    return new ScalaTuning({ description, pitches }, mapping);
+  }
+
+  /**
+   * Interval from the tonic that the 12-note gamut spells a semitone step as
+   * @param step - Semitones above the tonic (1-11)
+   * @param anchor - Tonic and wolf position of the gamut
+   * @returns Interval notation (e.g., "b3" or "#4")
+   */
+  private static gamutInterval(step: number, anchor: KeyAnchor): string {
+    const fifths = Array.from({ length: 12 }, (_, i) => anchor.wolfPosition + i).find(f => ((7 * f - step) % 12 + 12) % 12 === 0)!;
+    return Intervals.toString({ number: 1 + 4 * fifths + 7 * ((step - 7 * fifths) / 12), fifths });
+  }
+
+  /**
+   * Frequencies of MIDI keys 0-127; keys the tuning leaves unmapped keep their equal-tempered pitch
+   * @param tuning - Scale and keyboard mapping
+   * @param reference - Reference pitch
+   * @returns Frequency of each key in Hz
+   */
+  static keyFrequencies(tuning: ScalaTuning, reference: ReferencePitch): number[] {
+    const a4 = PythagoreanTuning.referenceToA4(reference);
+    return Array.from({ length: 128 }, (_, key) =>
+      tuning.keyFrequency(key, reference) ?? a4 * Math.pow(2, (key - 69) / 12)
+    );
+  }
+
+  /**
+   * Scala scale and keyboard mapping files
+   * @param tuning - Scale and keyboard mapping
+   * @param name - Base filename
+   * @returns .scl and .kbm files
+   */
+  static scalaFiles(tuning: ScalaTuning, name: string): TuningFile[] {
+    const mapping = tuning.mapping!;
+    return [
+      { filename: `${name}.scl`, content: Scala.formatScale(tuning.scale, `${name}.scl`) },
+      { filename: `${name}.kbm`, content: Scala.formatMapping(mapping, `${name}.kbm`) }
+    ];
+  }
+
+  /**
+   * AnaMark tuning file (version 2, with a whole-cent [Tuning] section for version 1 readers)
+   * @param tuning - Scale and keyboard mapping
+   * @param reference - Reference pitch
+   * @param name - Base filename
+   * @returns .tun file
+   */
+  static anamarkFile(tuning: ScalaTuning, reference: ReferencePitch, name: string): TuningFile {
+    const cents = this.keyFrequencies(tuning, reference).map(frequency => 1200 * Math.log2(frequency / this.anamarkBase));
+    const content = [
+      `; ${tuning.scale.description}`,
+      '[Scale Begin]',
+      'Format= "AnaMark-TUN"',
+      'FormatVersion= 200',
+      'FormatSpecs= "http://www.mark-henning.de/eternity/tuningspecs.html"',
+      '',
+      '[Info]',
+      `Name= "${name}.tun"`,
+      `Description= "${tuning.scale.description.replace(/"/g, "'")}"`,
+      '',
+      '[Tuning]',
+      ...cents.map((value, key) => `note ${key}= ${Math.round(value)}`),
+      '',
+      '[Exact Tuning]',
+      `BaseFreq= ${this.anamarkBase}`,
+      ...cents.map((value, key) => `note ${key}= ${value.toFixed(6)}`),
+      '',
+      '[Scale End]',
+      ''
+    ].join('\n');
+    return { filename: `${name}.tun`, content };
+  }
+
+  /**
+   * Trigger browser downloads of tuning files
+   * @param files - Files to download
+   */
+  static download(files: TuningFile[]): void {
+    files.forEach(file => {
+      const blob = new Blob([file.content], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = file.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    });
+  }
+}
@@ -1,10 +1,16 @@
 // Pythagorean Tuning System
 // This module calculates frequencies using pure 3:2 fifths (Pythagorean ratios)
+// and exposes the alternative tuning systems that can be compared against it
+
+import { Intervals } from './intervals';
+import { Ratio } from './ratio';
 
 export interface NoteData {
   interval: string;
   frequency: number;
   ratio: number;
+  exactRatio: Ratio | null;   // Exact fraction, when the tuning is rational
+  cents: number;
 }
 
 export interface ChordResult {
@@ -18,42 +24,372 @@ export interface ParsedChord {
   duration: number;
 }
 
+/**
+ * Reference pitch anchoring note names to frequencies (e.g., A4 = 440 Hz)
+ */
+export interface ReferencePitch {
+  note: string;
+  frequency: number;
+}
+
+export const DEFAULT_REFERENCE: ReferencePitch = { note: 'A4', frequency: 440 };
+
+// Common concert and historical pitch standards
+export const REFERENCE_PRESETS: ReferencePitch[] = [
+  { note: 'A4', frequency: 415 },   // Baroque pitch
+  { note: 'A4', frequency: 430 },   // Classical pitch
+  { note: 'A4', frequency: 432 },
+  { note: 'A4', frequency: 440 },   // Modern standard (ISO 16)
+  { note: 'A4', frequency: 442 },   // Orchestral pitch
+];
+
+/**
+ * Key anchoring: note names resolve through the chain of fifths from a tonic
+ * instead of being placed on equal temperament
+ */
+export interface KeyAnchor {
+  tonic: string;          // Tonic note name without octave (e.g., "C", "Bb")
+  wolfPosition: number;   // Chain-of-fifths offset of the lowest gamut note from the tonic
+  spelled?: boolean;      // Follow each note's spelling instead of folding into the 12-note gamut
+}
+
+// Default 12-note gamut runs from the minor 3rd to the augmented 5th (Eb-G# in C)
+export const DEFAULT_WOLF_POSITION = -3;
+
+/**
+ * A tuning system maps interval notation to a frequency ratio
+ */
+export interface TuningSystem {
+  id: string;
+  name: string;
+  description: string;
+  getIntervalRatio(interval: string): number;
+  getExactRatio?(interval: string): Ratio | null;
+  noteToFrequency?(note: string, reference: ReferencePitch): number;   // Retuned keyboards (e.g., Scala mappings)
+  getIntervalRatioFrom?(note: string, interval: string): number;     // Intervals that differ from key to key
+}
+
+// Syntonic comma (81/80): the gap between four pure fifths and a pure major third, which meantones divide among the fifths
+export const SYNTONIC_COMMA = Ratio.of(81, 80);
+
+// Classic meantones, named by the fraction of the comma taken from each fifth
+export const COMMA_FRACTIONS: Array<{ fraction: string; pure: string }> = [
+  { fraction: '1/3', pure: 'pure minor thirds (6/5)' },
+  { fraction: '2/7', pure: 'major and minor thirds both 1/7 comma narrow' },
+  { fraction: '1/4', pure: 'pure major thirds (5/4)' },
+  { fraction: '1/6', pure: 'pure augmented fourths (45/32)' },
+];
+
+/**
+ * Regular temperament: every interval is reached by stacking a single
+ * generating fifth and adding octaves
+ */
+export class RegularTuning implements TuningSystem {
+  // Fifths of 7-EDO and 5-EDO; between them the chain of fifths keeps the order of the note names
+  static minFifth = 4800 / 7;
+  static maxFifth = 720;
+
+  fifth: number;
+  exactFifth: Ratio | null;
+
+  constructor(
+    public id: string,
+    public name: string,
+    public description: string,
+    fifth: number | Ratio
+  ) {
+    this.fifth = fifth instanceof Ratio ? fifth.toNumber() : fifth;
+    this.exactFifth = fifth instanceof Ratio ? fifth : null;
+  }
+
+  /**
+   * Parse interval notation and return the ratio
+   * @param interval - Interval notation (e.g., "3", "b7", "#11", "aug5")
+   * @returns Frequency ratio
+   */
+  getIntervalRatio(interval: string): number {
+    return Intervals.ratio(Intervals.parse(interval), this.fifth);
+  }
+
+  /**
+   * Exact ratio of an interval (only when the generating fifth is rational)
+   * @param interval - Interval notation
+   * @returns Exact ratio, or null for irrational fifths
+   */
+  getExactRatio(interval: string): Ratio | null {
+    return this.exactFifth ? Intervals.exactRatio(Intervals.parse(interval), this.exactFifth) : null;
+  }
+
+  /**
+   * Size of the generating fifth
+   */
+  get fifthCents(): number {
+    return 1200 * Math.log2(this.fifth);
+  }
+
+  /**
+   * Create a regular temperament from its generator
+   * @param generator - Fifth in cents ("696.58", "696.58c") or a fraction of the syntonic comma
+   *   taken from each pure fifth ("1/4", "1/4-comma")
+   * @returns Tuning system
+   * @throws Error for unreadable generators and fifths outside the usable range
+   */
+  static fromGenerator(generator: string): RegularTuning {
+    const text = generator.trim().toLowerCase();
+    const fraction = text.match(/^(\d+)\/(\d+)(?:\s*-?\s*comma)?$/);
+    const cents = text.match(/^(\d+(?:\.\d*)?)\s*c?$/);
+
+    if (fraction && parseInt(fraction[2]) > 0) {
+      const numerator = parseInt(fraction[1]);
+      if (numerator === 0) {
+        return new RegularTuning('regular', 'Pythagorean (0-comma)', 'Pure 3:2 fifths, no comma taken', Ratio.of(3, 2));
+      }
+      const comma = Ratio.of(numerator, parseInt(fraction[2])).toString();
+      const fifth = Ratio.of(3, 2).cents() - (numerator / parseInt(fraction[2])) * SYNTONIC_COMMA.cents();
+      const known = COMMA_FRACTIONS.find(preset => preset.fraction === comma);
+      const tuning = this.fromCents(fifth, `${comma}-comma Meantone`);
+      tuning.description = `Fifths narrowed by ${comma} syntonic comma to ${fifth.toFixed(2)} cents` + (known ? `, for ${known.pure}` : '');
+      return tuning;
+    }
+    if (cents) {
+      return this.fromCents(parseFloat(cents[1]));
+    }
+    throw new Error(`Invalid generator: ${generator}. Expected a fifth in cents (696.58) or a fraction of the syntonic comma (1/4)`);
+  }
+
+  /**
+   * Create a regular temperament from the size of its fifth
+   * @param cents - Fifth in cents
+   * @param name - Display name
+   * @returns Tuning system
+   */
+  static fromCents(cents: number, name = `Regular Temperament (${cents.toFixed(2)}-cent fifth)`): RegularTuning {
+    if (!(cents >= this.minFifth - 1e-9 && cents <= this.maxFifth + 1e-9)) {
+      throw new Error(`Invalid fifth: ${Number(cents.toFixed(2))} cents. Expected ${this.minFifth.toFixed(2)} to ${this.maxFifth} cents`);
+    }
+    const offset = Math.round((cents - Ratio.of(3, 2).cents()) * 100) / 100 || 0;   // No "-0.00"
+    const description = `Fifths of ${cents.toFixed(2)} cents (${offset.toFixed(2)} from pure)`;
+    return new RegularTuning('regular', name, description, Math.pow(2, cents / 1200));
+  }
+}
+
+/**
+ * 5-limit just intonation: Pythagorean ratios corrected by syntonic commas (81/80)
+ */
+export class JustTuning implements TuningSystem {
+  id = 'just';
+  name = '5-limit Just Intonation';
+  description = 'Pure fifths and thirds from the ratios of 2, 3 and 5';
+
+  // Syntonic commas subtracted from each chain-of-fifths position
+  // (e.g. 81/64 - 1 comma = 5/4, 16/9 + 1 comma = 9/5)
+  static commas: { [key: number]: number } = {
+    [-6]: -1, [-5]: -1, [-4]: -1, [-3]: -1, [-2]: -1, [-1]: 0,
+    0: 0, 1: 0, 2: 0, 3: 1, 4: 1, 5: 1, 6: 1
+  };
+
+  /**
+   * Syntonic comma count for a chain-of-fifths position. Beyond the table each
+   * sharp or flat is a just chromatic semitone (25/24), i.e. two commas.
+   * @param fifths - Chain-of-fifths position
+   * @returns Commas to subtract from the Pythagorean ratio
+   */
+  static commasAt(fifths: number): number {
+    if (fifths > 6) return this.commasAt(fifths - 7) + 2;
+    if (fifths < -6) return this.commasAt(fifths + 7) - 2;
+    return this.commas[fifths];
+  }
+
+  /**
+   * Parse interval notation and return the ratio
+   * @param interval - Interval notation (e.g., "3", "b7", "#11", "aug5")
+   * @returns Frequency ratio
+   */
+  getIntervalRatio(interval: string): number {
+    return this.getExactRatio(interval).toNumber();
+  }
+
+  /**
+   * Exact just ratio of an interval
+   * @param interval - Interval notation
+   * @returns Exact ratio
+   */
+  getExactRatio(interval: string): Ratio {
+    const spelled = Intervals.parse(interval);
+    const pythagorean = Intervals.exactRatio(spelled, Ratio.of(3, 2));
+    return pythagorean.multiply(Ratio.of(80, 81).pow(JustTuning.commasAt(spelled.fifths)));
+  }
+}
+
+/**
+ * Equal division of the octave into any number of steps (19-EDO, 31-EDO, 53-EDO, ...)
+ * The fifth is the step nearest 3/2 and every interval name is reached by stacking it, as in a
+ * regular temperament. With 5-limit degrees the syntonic commas of just intonation are the steps
+ * left over between four fifths and the step nearest 5/4, so in 53-EDO "3" is 18 steps (81/64)
+ * with Pythagorean degrees and 17 steps (5/4) with just ones.
+ */
+export class EqualDivisionTuning implements TuningSystem {
+  static maxSteps = 1200;
+
+  id: string;
+  name: string;
+  description: string;
+  fifthSteps: number;   // Steps in the fifth
+  commaSteps: number;   // Steps in the syntonic comma (0 when the EDO tempers it out)
+
+  /**
+   * @param steps - Steps per octave
+   * @param degrees - Ratios the interval names approximate
+   */
+  constructor(public steps: number, public degrees: 'pythagorean' | 'just' = 'pythagorean') {
+    if (!Number.isInteger(steps) || steps < 1 || steps > EqualDivisionTuning.maxSteps) {
+      throw new Error(`Invalid number of steps: ${steps}. Expected a whole number from 1 to ${EqualDivisionTuning.maxSteps}`);
+    }
+    this.fifthSteps = Math.round(steps * Math.log2(3 / 2));
+    this.commaSteps = degrees === 'just' ? 4 * this.fifthSteps - 2 * steps - Math.round(steps * Math.log2(5 / 4)) : 0;
+    this.id = `edo-${steps}${degrees === 'just' ? '-just' : ''}`;
+    this.name = `${steps}-EDO`;
+    this.description = `${steps} equal steps of ${Number((1200 / steps).toFixed(2))} cents per octave; ` +
+      `fifths of ${this.fifthSteps} steps` + (degrees === 'just' ? ` and 5-limit thirds of ${4 * this.fifthSteps - 2 * steps - this.commaSteps}` : '');
+  }
+
+  /**
+   * Steps spanned by a chain of fifths plus octaves
+   * @param fifths - Chain-of-fifths offset
+   * @param octaves - Octaves (may be negative for descending intervals)
+   * @returns Steps
+   */
+  chainSteps(fifths: number, octaves: number): number {
+    const commas = this.degrees === 'just' ? JustTuning.commasAt(fifths) : 0;
+    return fifths * this.fifthSteps + octaves * this.steps - commas * this.commaSteps;
+  }
+
+  /**
+   * Step an interval name maps to
+   * @param interval - Interval notation (e.g., "3", "b7", "#11")
+   * @returns Number of steps above the fundamental
+   */
+  step(interval: string): number {
+    const spelled = Intervals.parse(interval);
+    return this.chainSteps(spelled.fifths, Intervals.octaves(spelled));
+  }
+
+  /**
+   * Ratio of the step an interval maps to
+   * @param interval - Interval notation
+   * @returns Frequency ratio
+   */
+  getIntervalRatio(interval: string): number {
+    return Math.pow(2, this.step(interval) / this.steps);
+  }
+
+  /**
+   * Note names are placed by their spelled distance from the reference pitch
+   * @param note - Note name with octave (e.g., "C4")
+   * @param reference - Reference pitch
+   * @returns Frequency in Hz
+   */
+  noteToFrequency(note: string, reference: ReferencePitch): number {
+    const name = (text: string) => text.replace(/-?\d+$/, '');
+    const fifths = PythagoreanTuning.noteNameToFifths(name(note)) - PythagoreanTuning.noteNameToFifths(name(reference.note));
+    const semitones = PythagoreanTuning.noteToSemitonesFromA4(note) - PythagoreanTuning.noteToSemitonesFromA4(reference.note);
+    return reference.frequency * Math.pow(2, this.chainSteps(fifths, (semitones - 7 * fifths) / 12) / this.steps);
+  }
+}
+
+export const EDO_PRESETS = [19, 31, 53];
+
 export class PythagoreanTuning {
-  // Base Pythagorean interval ratios (within one octave)
+  // Common Pythagorean interval ratios (within one octave)
+  // Any other spelling is derived from the chain of fifths by PYTHAGOREAN
   static intervals: { [key: string]: number } = {
     '1': 1/1,           // Unison
     'b2': 256/243,      // Minor 2nd
     '2': 9/8,           // Major 2nd
+    '#2': 19683/16384,  // Augmented 2nd
     'b3': 32/27,        // Minor 3rd
     '3': 81/64,         // Major 3rd (Pythagorean third)
     '4': 4/3,           // Perfect 4th
-    '#4': 729/512,      // Augmented 4th / Tritone
-    'b5': 729/512,      // Diminished 5th (same as #4 in Pythagorean)
+    '#4': 729/512,      // Augmented 4th
+    'b5': 1024/729,     // Diminished 5th (a Pythagorean comma below #4)
     '5': 3/2,           // Perfect 5th
+    '#5': 6561/4096,    // Augmented 5th
     'b6': 128/81,       // Minor 6th
     '6': 27/16,         // Major 6th
+    'bb7': 32768/19683, // Diminished 7th
     'b7': 16/9,         // Minor 7th
     '7': 243/128,       // Major 7th
     '8': 2/1,           // Octave
   };
 
   // Note names to semitone offsets from A
+  // Cb and B# belong to the octave of their letter (Cb4 = B3, B#4 = C5)
   static noteToSemitone: { [key: string]: number } = {
-    'C': -9, 'C#': -8, 'Db': -8,
+    'Cb': -10, 'C': -9, 'C#': -8, 'Db': -8,
     'D': -7, 'D#': -6, 'Eb': -6,
-    'E': -5,
+    'Fb': -5, 'E': -5, 'E#': -4,
     'F': -4, 'F#': -3, 'Gb': -3,
     'G': -2, 'G#': -1, 'Ab': -1,
     'A': 0, 'A#': 1, 'Bb': 1,
-    'B': 2
+    'B': 2, 'B#': 3
+  };
+
+  // Natural note names to chain-of-fifths positions from C
+  static letterToFifths: { [key: string]: number } = {
+    'F': -1, 'C': 0, 'G': 1, 'D': 2, 'A': 3, 'E': 4, 'B': 5
   };
 
   /**
-   * Parse a note string (e.g., "A4", "C#3", "Bb5") to frequency
+   * Position of a note name on the chain of fifths (C = 0, G = 1, F = -1, ...)
+   * @param noteName - Note name without octave (e.g., "F#", "Bb")
+   * @returns Chain-of-fifths position
+   */
+  static noteNameToFifths(noteName: string): number {
+    const match = noteName.match(/^([A-G])([#b]?)$/);
+    if (!match) {
+      throw new Error(`Invalid note name: ${noteName}`);
+    }
+
+    const accidental = match[2] === '#' ? 7 : match[2] === 'b' ? -7 : 0;
+    return this.letterToFifths[match[1]] + accidental;
+  }
+
+  /**
+   * Spell a chain-of-fifths position as a note name
+   * @param fifths - Chain-of-fifths position (C = 0)
+   * @returns Note name (e.g., "F#", "Bb", "Cbb")
+   */
+  static fifthsToNoteName(fifths: number): string {
+    const letters = ['F', 'C', 'G', 'D', 'A', 'E', 'B'];
+    const index = ((fifths + 1) % 7 + 7) % 7;
+    const accidentals = Math.floor((fifths + 1) / 7);
+    const accidental = accidentals >= 0 ? '#'.repeat(accidentals) : 'b'.repeat(-accidentals);
+    return letters[index] + accidental;
+  }
+
+  /**
+   * Chain-of-fifths offset of a note from the tonic, folded into the 12-note gamut
+   * unless the anchor follows spelling
+   * @param noteName - Note name without octave
+   * @param anchor - Tonic and wolf position
+   * @returns Offset in fifths (within [wolfPosition, wolfPosition + 11] when folded)
+   */
+  static gamutPosition(noteName: string, anchor: KeyAnchor): number {
+    const offset = this.noteNameToFifths(noteName) - this.noteNameToFifths(anchor.tonic);
+    if (anchor.spelled) {
+      return offset;
+    }
+
+    const low = anchor.wolfPosition;
+    return low + (((offset - low) % 12) + 12) % 12;
+  }
+
+  /**
+   * Count equal-tempered semitones from A4 to a note
    * @param note - Note name with octave (e.g., "A4")
-   * @returns Frequency in Hz
+   * @returns Semitone offset from A4
    */
-  static noteToFrequency(note: string): number {
+  static noteToSemitonesFromA4(note: string): number {
     const match = note.match(/^([A-G][#b]?)(-?\d+)$/);
     if (!match) {
       throw new Error(`Invalid note format: ${note}. Use format like A4, C#3, Bb5`);
@@ -62,69 +398,177 @@ export class PythagoreanTuning {
     const noteName = match[1];
     const octave = parseInt(match[2]);
 
-    // Calculate semitones from A4 (440 Hz)
     const semitoneOffset = this.noteToSemitone[noteName];
     if (semitoneOffset === undefined) {
       throw new Error(`Invalid note name: ${noteName}`);
     }
 
-    const totalSemitones = semitoneOffset + (octave - 4) * 12;
+    return semitoneOffset + (octave - 4) * 12;
+  }
+
+  /**
+   * Frequency of A4 implied by a reference pitch
+   * @param reference - Reference note and frequency (e.g., C4 = 256 Hz)
+   * @returns A4 frequency in Hz
+   */
+  static referenceToA4(reference: ReferencePitch = DEFAULT_REFERENCE): number {
+    if (!(reference.frequency > 0)) {
+      throw new Error(`Invalid reference frequency: ${reference.frequency}. Must be a positive number.`);
+    }
 
-    // Use equal temperament for the base frequency calculation
-    // (since we're starting from A4 = 440 Hz standard)
-    return 440 * Math.pow(2, totalSemitones / 12);
+    const semitones = this.noteToSemitonesFromA4(reference.note);
+    return reference.frequency * Math.pow(2, -semitones / 12);
   }
 
   /**
-   * Parse interval notation and return the ratio
-   * Supports simple intervals (1-8) and compound intervals (9+)
-   * @param interval - Interval notation (e.g., "3", "b7", "9", "#11")
-   * @returns Frequency ratio
+   * Parse a note string (e.g., "A4", "C#3", "Bb5") to frequency
+   * @param note - Note name with octave (e.g., "A4")
+   * @param reference - Reference pitch (defaults to A4 = 440 Hz)
+   * @returns Frequency in Hz
    */
-  static getIntervalRatio(interval: string): number {
-    interval = interval.trim();
+  static noteToFrequency(note: string, reference: ReferencePitch = DEFAULT_REFERENCE): number {
+    const totalSemitones = this.noteToSemitonesFromA4(note);
+
+    // Use equal temperament for the base frequency calculation,
+    // starting from the A4 implied by the reference pitch
+    return this.referenceToA4(reference) * Math.pow(2, totalSemitones / 12);
+  }
+
+  /**
+   * Frequency of a note on the keyboard of a tuning system
+   * (retuned keyboards such as Scala mappings, equal temperament otherwise)
+   * @param note - Note name with octave
+   * @param system - Tuning system
+   * @param reference - Reference pitch
+   * @returns Frequency in Hz
+   */
+  static keyFrequency(note: string, system: TuningSystem, reference: ReferencePitch = DEFAULT_REFERENCE): number {
+    return system.noteToFrequency ? system.noteToFrequency(note, reference) : this.noteToFrequency(note, reference);
+  }
+
+  /**
+   * Resolve a note through the chain of fifths from the tonic (key-anchored mode).
+   * The reference note keeps its reference frequency; every other note is reached
+   * by stacking the tuning system's fifth, so the gamut is consistent across chords.
+   * @param note - Note name with octave (e.g., "F4")
+   * @param anchor - Tonic and wolf position of the 12-note gamut
+   * @param system - Tuning system providing the fifth
+   * @param reference - Reference pitch
+   * @returns Frequency in Hz
+   */
+  static noteToAnchoredFrequency(
+    note: string,
+    anchor: KeyAnchor,
+    system: TuningSystem = PYTHAGOREAN,
+    reference: ReferencePitch = DEFAULT_REFERENCE
+  ): number {
+    const noteName = note.replace(/-?\d+$/, '');
+    const referenceName = reference.note.replace(/-?\d+$/, '');
+    const fifths = this.gamutPosition(noteName, anchor) - this.gamutPosition(referenceName, anchor);
+
+    // Each fifth spans 7 semitones; the remaining distance is whole octaves
+    const semitones = this.noteToSemitonesFromA4(note) - this.noteToSemitonesFromA4(reference.note);
+    const octaves = Math.round((semitones - 7 * fifths) / 12);
+
+    const fifth = system.getIntervalRatio('5');
+    return reference.frequency * Math.pow(fifth, fifths) * Math.pow(2, octaves);
+  }
+
+  /**
+   * Parse a ratio or cents literal (e.g., "5/4", "7/4", "386.3c")
+   * Literals are exact and do not depend on the tuning system
+   * @param interval - Interval token
+   * @returns Frequency ratio, or null if the token is not a literal
+   */
+  static parseLiteral(interval: string): number | null {
+    const token = interval.trim();
 
-    // Check if it's a simple interval (within one octave)
-    if (this.intervals[interval]) {
-      return this.intervals[interval];
+    const exact = this.parseExactLiteral(token);
+    if (exact) {
+      return exact.toNumber();
     }
 
-    // Handle compound intervals (larger than octave)
-    const match = interval.match(/^([#b]?)(\d+)$/);
-    if (!match) {
-      throw new Error(`Invalid interval: ${interval}`);
+    const centsMatch = token.match(/^(-?\d+(?:\.\d+)?)c$/);
+    if (centsMatch) {
+      return Math.pow(2, parseFloat(centsMatch[1]) / 1200);
     }
 
-    const accidental = match[1];
-    const number = parseInt(match[2]);
+    return null;
+  }
 
-    if (number <= 8) {
-      // Must be a simple interval we don't have
-      throw new Error(`Unknown interval: ${interval}`);
+  /**
+   * Parse a ratio literal (e.g., "7/4") as an exact ratio
+   * @param interval - Interval token
+   * @returns Exact ratio, or null if the token is not a ratio literal
+   */
+  static parseExactLiteral(interval: string): Ratio | null {
+    const token = interval.trim();
+    const ratioMatch = token.match(/^(\d+)\/(\d+)$/);
+    if (!ratioMatch) {
+      return null;
     }
 
-    // Calculate compound interval
-    // e.g., 9 = 2 + octave, 10 = 3 + octave, etc.
-    const octaves = Math.floor((number - 1) / 7);
-    const simpleIntervalNumber = ((number - 1) % 7) + 1;
-    const simpleInterval = accidental + simpleIntervalNumber;
-
-    if (!this.intervals[simpleInterval]) {
-      throw new Error(`Unknown compound interval: ${interval} (derived from ${simpleInterval})`);
+    const numerator = parseInt(ratioMatch[1]);
+    const denominator = parseInt(ratioMatch[2]);
+    if (numerator === 0 || denominator === 0) {
+      throw new Error(`Invalid ratio: ${token}. Numerator and denominator must be positive`);
     }
+    return Ratio.of(numerator, denominator);
+  }
+
+  /**
+   * Whether an interval token is a ratio or cents literal
+   * @param interval - Interval token
+   * @returns True for literals like "5/4" or "386.3c"
+   */
+  static isLiteral(interval: string): boolean {
+    return /^(\d+\/\d+|-?\d+(\.\d+)?c)$/.test(interval.trim());
+  }
+
+  /**
+   * Parse interval notation and return the Pythagorean ratio
+   * Supports simple intervals (1-8) and compound intervals (9+)
+   * @param interval - Interval notation (e.g., "3", "b7", "9", "#11")
+   * @returns Frequency ratio
+   */
+  static getIntervalRatio(interval: string): number {
+    return this.resolveIntervalRatio(interval, PYTHAGOREAN);
+  }
 
-    // Multiply by 2 for each octave
-    return this.intervals[simpleInterval] * Math.pow(2, octaves);
+  /**
+   * Resolve an interval token to a ratio: literals are used as written,
+   * scale degrees are looked up in the tuning system
+   * @param interval - Interval token (e.g., "3", "#11", "7/4", "386.3c")
+   * @param system - Tuning system for scale degrees
+   * @returns Frequency ratio
+   */
+  static resolveIntervalRatio(interval: string, system: TuningSystem = PYTHAGOREAN): number {
+    const literal = this.parseLiteral(interval);
+    return literal !== null ? literal : system.getIntervalRatio(interval);
+  }
+
+  /**
+   * Resolve an interval token to an exact ratio where possible
+   * @param interval - Interval token
+   * @param system - Tuning system for scale degrees
+   * @returns Exact ratio, or null for cents literals and irrational tunings
+   */
+  static resolveExactRatio(interval: string, system: TuningSystem = PYTHAGOREAN): Ratio | null {
+    if (this.isLiteral(interval)) {
+      return this.parseExactLiteral(interval);
+    }
+    return system.getExactRatio ? system.getExactRatio(interval) : null;
   }
 
   /**
    * Calculate frequency for a note at a given interval from fundamental
    * @param fundamental - Fundamental frequency in Hz
    * @param interval - Interval notation
+   * @param system - Tuning system providing the interval ratio
    * @returns Resulting frequency in Hz
    */
-  static calculateFrequency(fundamental: number, interval: string): number {
-    const ratio = this.getIntervalRatio(interval);
+  static calculateFrequency(fundamental: number, interval: string, system: TuningSystem = PYTHAGOREAN): number {
+    const ratio = this.resolveIntervalRatio(interval, system);
     return fundamental * ratio;
   }
 
@@ -132,33 +576,60 @@ export class PythagoreanTuning {
    * Calculate all frequencies for a chord given fundamental and intervals
    * @param fundamental - Note name (e.g., "A4") or frequency in Hz
    * @param intervals - Array of interval notations
+   * @param system - Tuning system used for the interval ratios
+   * @param reference - Reference pitch for note name fundamentals
+   * @param anchor - Tonic for key-anchored fundamentals (chord-relative if omitted)
    * @returns Object with fundamental frequency and array of chord frequencies
    */
-  static calculateChord(fundamental: string | number, intervals: string[]): ChordResult {
+  static calculateChord(
+    fundamental: string | number,
+    intervals: string[],
+    system: TuningSystem = PYTHAGOREAN,
+    reference: ReferencePitch = DEFAULT_REFERENCE,
+    anchor?: KeyAnchor
+  ): ChordResult {
     let fundamentalFreq: number;
+    let fundamentalNote: string | null = null;
 
     // Parse fundamental
     if (typeof fundamental === 'string') {
       // Try parsing as note name first
       try {
-        fundamentalFreq = this.noteToFrequency(fundamental);
+        fundamentalFreq = system.noteToFrequency
+          ? system.noteToFrequency(fundamental, reference)
+          : anchor
+            ? this.noteToAnchoredFrequency(fundamental, anchor, system, reference)
+            : this.noteToFrequency(fundamental, reference);
+        fundamentalNote = fundamental;
       } catch (e) {
         // Try parsing as number
         fundamentalFreq = parseFloat(fundamental.toString());
         if (isNaN(fundamentalFreq)) {
-          throw new Error(`Invalid fundamental: ${fundamental}`);
+          // Keep the tuning's own error for notes its keyboard leaves unmapped
+          throw system.noteToFrequency && /^[A-G]/.test(fundamental) && e instanceof Error
+            ? e
+            : new Error(`Invalid fundamental: ${fundamental}`);
         }
       }
     } else {
       fundamentalFreq = fundamental;
     }
 
-    // Calculate frequencies for each interval
+    // Calculate frequencies for each interval, keeping exact ratios where the tuning allows
     const frequencies: NoteData[] = intervals.map(interval => {
+      const exactRatio = this.resolveExactRatio(interval, system);
+      const ratio = exactRatio
+        ? exactRatio.toNumber()
+        : fundamentalNote && system.getIntervalRatioFrom && !this.isLiteral(interval)
+          ? system.getIntervalRatioFrom(fundamentalNote, interval)
+          : this.resolveIntervalRatio(interval, system);
+
       return {
         interval: interval,
-        frequency: this.calculateFrequency(fundamentalFreq, interval),
-        ratio: this.getIntervalRatio(interval)
+        frequency: fundamentalFreq * ratio,
+        ratio: ratio,
+        exactRatio: exactRatio,
+        cents: exactRatio ? exactRatio.cents() : 1200 * Math.log2(ratio)
       };
     });
 
@@ -170,45 +641,35 @@ export class PythagoreanTuning {
 
   /**
    * Calculate equal temperament frequency for comparison
+   * Ratio and cents literals are compared against the nearest step
    * @param fundamental - Fundamental frequency in Hz
    * @param interval - Interval notation
+   * @param steps - Equal steps per octave (12 = semitones)
    * @returns Equal temperament frequency
    */
-  static calculateEqualTemperament(fundamental: number, interval: string): number {
-    // Map interval to semitones
-    const intervalToSemitones: { [key: string]: number } = {
-      '1': 0, 'b2': 1, '2': 2, 'b3': 3, '3': 4, '4': 5,
-      '#4': 6, 'b5': 6, '5': 7, 'b6': 8, '6': 9, 'b7': 10, '7': 11, '8': 12
-    };
-
-    const match = interval.match(/^([#b]?)(\d+)$/);
-    if (!match) {
-      throw new Error(`Invalid interval: ${interval}`);
-    }
-
-    const accidental = match[1];
-    const number = parseInt(match[2]);
-
-    let semitones: number;
-    if (number <= 8) {
-      semitones = intervalToSemitones[interval];
-      if (semitones === undefined) {
-        throw new Error(`Unknown interval for equal temperament: ${interval}`);
-      }
-    } else {
-      // Compound interval
-      const octaves = Math.floor((number - 1) / 7);
-      const simpleNumber = ((number - 1) % 7) + 1;
-      const simpleInterval = accidental + simpleNumber;
-      semitones = intervalToSemitones[simpleInterval] + (octaves * 12);
-    }
+  static calculateEqualTemperament(fundamental: number, interval: string, steps = 12): number {
+    return fundamental * Math.pow(2, this.equalTemperamentCents(interval, steps) / 1200);
+  }
 
-    return fundamental * Math.pow(2, semitones / 12);
+  /**
+   * Size of an interval in equal temperament
+   * @param interval - Interval notation
+   * @param steps - Equal steps per octave (12 = semitones)
+   * @returns Cents (a whole number of steps)
+   */
+  static equalTemperamentCents(interval: string, steps = 12): number {
+    const literal = this.parseLiteral(interval);
+    const step = literal !== null
+      ? Math.round(steps * Math.log2(literal))
+      : steps === 12
+        ? Intervals.semitones(Intervals.parse(interval))
+        : new EqualDivisionTuning(steps).step(interval);
+    return (step * 1200) / steps;
   }
 
   /**
-   * Calculate the difference in cents between Pythagorean and Equal Temperament
-   * @param pythagoreanFreq - Pythagorean frequency
+   * Calculate the difference in cents between a tuned and an Equal Temperament frequency
+   * @param pythagoreanFreq - Pythagorean (or other tuned) frequency
    * @param equalTempFreq - Equal temperament frequency
    * @returns Difference in cents
    */
@@ -216,3 +677,44 @@ export class PythagoreanTuning {
     return 1200 * Math.log2(pythagoreanFreq / equalTempFreq);
   }
 }
+
+// Built-in tuning systems
+
+export const PYTHAGOREAN = new RegularTuning(
+  'pythagorean',
+  'Pythagorean',
+  'Pure 3:2 fifths stacked from the fundamental',
+  Ratio.of(3, 2)
+);
+
+export const JUST_INTONATION = new JustTuning();
+
+export const EQUAL_TEMPERAMENT = new RegularTuning(
+  '12tet',
+  '12-TET',
+  'Twelve equal semitones of 100 cents each',
+  Math.pow(2, 7/12)
+);
+
+export const QUARTER_COMMA_MEANTONE = new RegularTuning(
+  'meantone',
+  'Quarter-comma Meantone',
+  'Fifths narrowed by 1/4 syntonic comma for pure major thirds',
+  Math.pow(5, 1/4)
+);
+
+export const TUNING_SYSTEMS: TuningSystem[] = [
+  PYTHAGOREAN,
+  JUST_INTONATION,
+  EQUAL_TEMPERAMENT,
+  QUARTER_COMMA_MEANTONE,
+];
+
+/**
+ * Look up a built-in tuning system by id
+ * @param id - Tuning system id
+ * @returns Tuning system (Pythagorean if the id is unknown)
+ */
+export function getTuningSystem(id: string): TuningSystem {
+  return TUNING_SYSTEMS.find(system => system.id === id) || PYTHAGOREAN;
+}
@@ -0,0 +1,194 @@
+// Historical Well Temperaments
+// Fixed 12-note temperaments defined by how much of a comma each fifth of the circle gives up,
+// so that every key is playable but each key has its own character
+
+import { Intervals } from './intervals';
+import { Ratio } from './ratio';
+import { PythagoreanTuning, SYNTONIC_COMMA, type ReferencePitch, type TuningSystem } from './tuning';
+
+export type Comma = 'pythagorean' | 'syntonic' | 'schisma';
+
+export const COMMAS: Record<Comma, Ratio> = {
+  pythagorean: Ratio.of(531441, 524288),   // Twelve pure fifths over seven octaves
+  syntonic: SYNTONIC_COMMA,                // Four pure fifths over a pure major third
+  schisma: Ratio.of(32805, 32768),         // Pythagorean minus syntonic comma
+};
+
+export interface WellTemperamentDefinition {
+  id: string;
+  name: string;
+  description: string;
+  // Fraction of a comma each fifth is narrowed by, keyed by its lower note (unlisted fifths are pure);
+  // the fractions add up to one Pythagorean comma so that the circle closes
+  fifths: { [from: string]: [string, Comma] };
+}
+
+// Thirds and fifth of the major and minor triads on one root
+export interface KeyCharacter {
+  key: string;                        // Root (e.g., "F#")
+  major: { third: number; upperThird: number };   // Major third and the minor third above it, in cents
+  minor: { third: number; upperThird: number };   // Minor third and the major third above it, in cents
+  fifth: number;                      // Fifth above the root, in cents
+}
+
+// Circle of fifths from C, in the spelling the temperaments were described in
+export const CIRCLE_OF_FIFTHS = ['C', 'G', 'D', 'A', 'E', 'B', 'F#', 'C#', 'G#', 'Eb', 'Bb', 'F'];
+
+export const WELL_TEMPERAMENTS: WellTemperamentDefinition[] = [
+  {
+    id: 'werckmeister3',
+    name: 'Werckmeister III',
+    description: 'Andreas Werckmeister (1691): C-G, G-D, D-A and B-F# narrowed by 1/4 Pythagorean comma, all other fifths pure',
+    fifths: { C: ['1/4', 'pythagorean'], G: ['1/4', 'pythagorean'], D: ['1/4', 'pythagorean'], B: ['1/4', 'pythagorean'] }
+  },
+  {
+    id: 'kirnberger3',
+    name: 'Kirnberger III',
+    description: 'Johann Philipp Kirnberger (1779): C-G, G-D, D-A and A-E narrowed by 1/4 syntonic comma for a pure C-E, F#-C# by a schisma',
+    fifths: { C: ['1/4', 'syntonic'], G: ['1/4', 'syntonic'], D: ['1/4', 'syntonic'], A: ['1/4', 'syntonic'], 'F#': ['1', 'schisma'] }
+  },
+  {
+    id: 'vallotti',
+    name: 'Vallotti',
+    description: 'Francesco Antonio Vallotti (c. 1750): the six fifths from F to B narrowed by 1/6 Pythagorean comma, the rest pure',
+    fifths: {
+      F: ['1/6', 'pythagorean'], C: ['1/6', 'pythagorean'], G: ['1/6', 'pythagorean'],
+      D: ['1/6', 'pythagorean'], A: ['1/6', 'pythagorean'], E: ['1/6', 'pythagorean']
+    }
+  },
+  {
+    id: 'young2',
+    name: 'Young II',
+    description: 'Thomas Young (1799): the six fifths from C to F# narrowed by 1/6 Pythagorean comma, the rest pure',
+    fifths: {
+      C: ['1/6', 'pythagorean'], G: ['1/6', 'pythagorean'], D: ['1/6', 'pythagorean'],
+      A: ['1/6', 'pythagorean'], E: ['1/6', 'pythagorean'], B: ['1/6', 'pythagorean']
+    }
+  },
+];
+
+// Key names by semitone above C
+const KEY_NAMES = ['C', 'C#', 'D', 'Eb', 'E', 'F', 'F#', 'G', 'G#', 'A', 'Bb', 'B'];
+
+/**
+ * Well temperament on a tonic: the temperament's C is moved to the tonic, so its best keys follow it.
+ * Intervals are measured on the 12 fixed pitches, so the same interval differs from key to key.
+ */
+export class WellTemperament implements TuningSystem {
+  id: string;
+  name: string;
+  description: string;
+  private semitoneCents: number[];   // Cents of each semitone above the tonic
+
+  /**
+   * @param definition - Temperament from WELL_TEMPERAMENTS
+   * @param tonic - Note the temperament's C is placed on
+   */
+  constructor(public definition: WellTemperamentDefinition, public tonic = 'C') {
+    this.id = definition.id;
+    this.name = tonic === 'C' ? definition.name : `${definition.name} on ${tonic}`;
+    this.description = definition.description + (tonic === 'C' ? '' : ` (moved so that C falls on ${tonic})`);
+
+    // Walk the circle from C, narrowing each fifth and folding into the octave
+    this.semitoneCents = new Array(12);
+    let cents = 0;
+    CIRCLE_OF_FIFTHS.forEach((from, i) => {
+      this.semitoneCents[(7 * i) % 12] = ((cents % 1200) + 1200) % 1200;
+      cents += WellTemperament.fifthCents(definition, from);
+    });
+  }
+
+  /**
+   * Size of a fifth of the circle
+   * @param definition - Temperament
+   * @param from - Lower note of the fifth (as spelled in CIRCLE_OF_FIFTHS)
+   * @returns Cents
+   */
+  static fifthCents(definition: WellTemperamentDefinition, from: string): number {
+    const tempering = definition.fifths[from];
+    if (!tempering) {
+      return Ratio.of(3, 2).cents();
+    }
+    const [numerator, denominator = '1'] = tempering[0].split('/');
+    return Ratio.of(3, 2).cents() - (parseInt(numerator) / parseInt(denominator)) * COMMAS[tempering[1]].cents();
+  }
+
+  /**
+   * Size of the span from the tonic to a number of semitones above it
+   * @param semitones - Semitones above the tonic (may be negative or beyond the octave)
+   * @returns Cents
+   */
+  private cents(semitones: number): number {
+    const octaves = Math.floor(semitones / 12);
+    return this.semitoneCents[semitones - 12 * octaves] + 1200 * octaves;
+  }
+
+  /**
+   * Semitones from the tonic (in octave 4) to a note
+   * @param note - Note name with octave
+   * @returns Semitones
+   */
+  private semitonesFromTonic(note: string): number {
+    return PythagoreanTuning.noteToSemitonesFromA4(note) - PythagoreanTuning.noteToSemitonesFromA4(`${this.tonic}4`);
+  }
+
+  /**
+   * Ratio of an interval above the tonic
+   * @param interval - Interval notation (e.g., "3", "b7")
+   * @returns Frequency ratio
+   */
+  getIntervalRatio(interval: string): number {
+    return Math.pow(2, this.cents(Intervals.semitones(Intervals.parse(interval))) / 1200);
+  }
+
+  /**
+   * Ratio of an interval above a note, on the fixed pitches of the temperament
+   * @param note - Note name with octave
+   * @param interval - Interval notation
+   * @returns Frequency ratio
+   */
+  getIntervalRatioFrom(note: string, interval: string): number {
+    const root = this.semitonesFromTonic(note);
+    const top = root + Intervals.semitones(Intervals.parse(interval));
+    return Math.pow(2, (this.cents(top) - this.cents(root)) / 1200);
+  }
+
+  /**
+   * Frequency of a note; the reference note keeps its frequency
+   * @param note - Note name with octave
+   * @param reference - Reference pitch
+   * @returns Frequency in Hz
+   */
+  noteToFrequency(note: string, reference: ReferencePitch): number {
+    const cents = this.cents(this.semitonesFromTonic(note)) - this.cents(this.semitonesFromTonic(reference.note));
+    return reference.frequency * Math.pow(2, cents / 1200);
+  }
+
+  /**
+   * Thirds and fifths of the triads in every key, in circle-of-fifths order from the tonic
+   * @returns Key character table
+   */
+  keyCharacter(): KeyCharacter[] {
+    const tonic = ((PythagoreanTuning.noteToSemitonesFromA4(`${this.tonic}4`) + 9) % 12 + 12) % 12;   // Semitones above C
+    const span = (root: number, semitones: number) => this.cents(root + semitones) - this.cents(root);
+
+    return Array.from({ length: 12 }, (_, i) => {
+      const root = (7 * i) % 12;
+      return {
+        key: KEY_NAMES[(tonic + root) % 12],
+        major: { third: span(root, 4), upperThird: span(root + 4, 3) },
+        minor: { third: span(root, 3), upperThird: span(root + 3, 4) },
+        fifth: span(root, 7)
+      };
+    });
+  }
+}
+
+/**
+ * Look up a well temperament by id
+ * @param id - Temperament id
+ * @returns Definition, or undefined for other tuning ids
+ */
+export function getWellTemperament(id: string): WellTemperamentDefinition | undefined {
+  return WELL_TEMPERAMENTS.find(definition => definition.id === id);
+}